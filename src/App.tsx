@@ -1,11 +1,71 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { load, dump } from 'js-yaml';
-import GraphVisualization from './components/GraphVisualization';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import GraphVisualization, { GraphContextActions, GraphVisualizationHandle } from './components/GraphVisualization';
 import TopologyEditor from './components/TopologyEditor';
 import PropertyEditor from './components/PropertyEditor';
 import TopologyControls from './components/TopologyControls';
 import LogicalEditor from './components/LogicalEditor';
-import { Topology, Node, PhysicalSource, Sink, NodeSelection, LogicalSchema } from './types';
+import ProblemsPanel from './components/ProblemsPanel';
+import SessionRecovery from './components/SessionRecovery';
+import EdgeInspector from './components/EdgeInspector';
+import ImageExportDialog from './components/ImageExportDialog';
+import SchemaRemovalDialog from './components/SchemaRemovalDialog';
+import ComparePanel from './components/ComparePanel';
+import UtilizationPanel from './components/UtilizationPanel';
+import { useTopologyHistory, HistoryEntry, NodeRename } from './hooks/useTopologyHistory';
+import { validateTopology, Problem } from './utils/validation';
+import { parseTopology, formatSchemaErrors } from './utils/schemaValidation';
+import {
+  findAddressConflict,
+  renameConnection,
+  renameEdgeSelection,
+  renameSatelliteId,
+  renameSelection,
+  updateLogicalSchema
+} from './utils/rename';
+import { addEdge, buildEdges, hasEdge, removeEdge, reverseEdge } from './utils/links';
+import {
+  addSinkToNodes,
+  addSourceToNodes,
+  createPhysicalSource,
+  createSink,
+  deleteNode,
+  deleteNodes,
+  duplicateNode,
+  duplicateSatellite,
+  findSchemaUsers,
+  removeLogicalSchema,
+  setCapacity,
+  uniqueSinkName
+} from './utils/topologyEdits';
+import {
+  downloadBlob,
+  isYamlFileName,
+  openTopologyFile,
+  OpenedFile,
+  readDroppedFile,
+  saveTopologyFile,
+  serializeTopology,
+  supportsSavePicker,
+  TopologyFileHandle
+} from './utils/topologyFile';
+import { layoutToPositions, positionsToLayout } from './utils/layout';
+import { ImageExportOptions, ImageFormat, svgToPng } from './utils/imageExport';
+import { computeUtilization, DEFAULT_UTILIZATION_WEIGHTS, UtilizationWeights } from './utils/utilization';
+import { traceFromSource, traceToSink } from './utils/dataflow';
+import { diffTopologies } from './utils/topologyDiff';
+import { createSessionId, discardSession, loadSessions, saveSession, SavedSession } from './utils/autosave';
+import {
+  Topology,
+  Node,
+  PhysicalSource,
+  Sink,
+  NodeSelection,
+  LogicalSchema,
+  EdgeSelection,
+  NodePositions
+} from './types';
+
+type SidebarTab = 'editor' | 'controls' | 'logical' | 'problems' | 'capacity' | 'compare';
 
 // Default empty topology
 const defaultTopology: Topology = {
@@ -13,38 +73,398 @@ const defaultTopology: Topology = {
 };
 
 const App: React.FC = () => {
-  const [topology, setTopology] = useState<Topology>(defaultTopology);
   const [selectedNodeInfo, setSelectedNodeInfo] = useState<NodeSelection>(null);
+  const {
+    topology,
+    setTopology,
+    resetTopology,
+    undo,
+    redo,
+    canUndo,
+    canRedo
+  } = useTopologyHistory(defaultTopology, selectedNodeInfo);
   const [selectedNode, setSelectedNode] = useState<Node | null>(null);
+  const [selectedEdge, setSelectedEdge] = useState<EdgeSelection>(null);
+  // Main nodes selected together with Shift in the graph; edited in bulk when
+  // there are two or more
+  const [multiSelection, setMultiSelection] = useState<string[]>([]);
   const [showTopologyEditor, setShowTopologyEditor] = useState<boolean>(false); // Default to hiding the YAML editor
-  const [activeTab, setActiveTab] = useState<'editor' | 'controls' | 'logical'>('controls');
+  const [loadError, setLoadError] = useState<string>('');
+  const [activeTab, setActiveTab] = useState<SidebarTab>('controls');
+  const [fileName, setFileName] = useState<string>('topology.yaml');
+  // The topology as last loaded or saved; anything else is an unsaved change
+  const [savedTopology, setSavedTopology] = useState<Topology>(defaultTopology);
+  const [isDraggingFile, setIsDraggingFile] = useState<boolean>(false);
+  // Whether saved and exported files carry the graph layout section
+  const [includeLayout, setIncludeLayout] = useState<boolean>(true);
+  const [showImageExport, setShowImageExport] = useState<boolean>(false);
+  // Name of a logical schema whose removal waits for a decision about its sources
+  const [pendingSchemaRemoval, setPendingSchemaRemoval] = useState<string | null>(null);
+  // A second topology shown together with the edited one, and which of them is the older side
+  const [comparison, setComparison] = useState<{ name: string; topology: Topology } | null>(null);
+  const [comparisonSwapped, setComparisonSwapped] = useState<boolean>(false);
+  // The union graph shown while comparing cannot be edited
+  const comparingRef = useRef<boolean>(false);
+  comparingRef.current = comparison !== null;
+  const [utilizationWeights, setUtilizationWeights] = useState<UtilizationWeights>(DEFAULT_UTILIZATION_WEIGHTS);
+  const fileHandleRef = useRef<TopologyFileHandle | null>(null);
+  const graphApiRef = useRef<GraphVisualizationHandle>(null);
+  // The comparison graph is a separate instance, so its positions never mix with the edited graph's
+  const compareGraphApiRef = useRef<GraphVisualizationHandle>(null);
+  // Positions of the edited graph, kept while the comparison graph is shown in its place
+  const editedPositionsRef = useRef<NodePositions | null>(null);
+  const isDirty = topology !== savedTopology;
+
+  // Sessions recovered from autosave; the recovery dialog is shown while non-empty.
+  // Only sessions with changes that were not saved to a file are kept.
+  const [recoverySessions, setRecoverySessions] = useState<SavedSession[]>(() => loadSessions());
+  const sessionIdRef = useRef<string>(createSessionId());
+  // Whether this session has been written to storage yet
+  const sessionStoredRef = useRef<boolean>(false);
+
+  // Read or replace the edited graph's positions, also while it is hidden by a comparison
+  const getEditedPositions = () => editedPositionsRef.current ?? graphApiRef.current?.getNodePositions() ?? {};
+  const setEditedPositions = useCallback((positions: NodePositions) => {
+    if (comparingRef.current) {
+      editedPositionsRef.current = positions;
+    } else {
+      graphApiRef.current?.setNodePositions(positions);
+    }
+  }, []);
 
-  // Load topology from file
+  // Load the default topology file
+  const loadDefaultTopology = useCallback(async () => {
+    try {
+      // Fetch from file with relative path for GitHub Pages
+      const response = await fetch('./topology.yaml');
+      const yamlText = await response.text();
+      const { topology: parsedTopology, layout, errors } = parseTopology(yamlText);
+      
+      if (parsedTopology) {
+        const loaded: Topology = {
+          logical: parsedTopology.logical,
+          nodes: parsedTopology.nodes
+        };
+        setEditedPositions(layoutToPositions(layout));
+        resetTopology(loaded);
+        setSavedTopology(loaded);
+      } else {
+        setLoadError('topology.yaml does not match the topology schema:\n' + formatSchemaErrors(errors));
+      }
+    } catch (error) {
+      console.error('Failed to load topology:', error);
+    }
+  }, [resetTopology, setEditedPositions]);
+
+  // Load topology from file, unless there are sessions to recover
   useEffect(() => {
-    const loadTopology = async () => {
-      try {
-        // Fetch from file with relative path for GitHub Pages
-        const response = await fetch('./topology.yaml');
-        const yamlText = await response.text();
-        const parsedYaml = load(yamlText) as Topology;
-        
-        if (parsedYaml.nodes) {
-          setTopology({
-            logical: parsedYaml.logical,
-            nodes: parsedYaml.nodes
-          });
-        }
-      } catch (error) {
-        console.error('Failed to load topology:', error);
+    if (loadSessions().length === 0) {
+      loadDefaultTopology();
+    }
+  }, [loadDefaultTopology]);
+
+  // Continue a recovered session; later autosaves update the same entry
+  const handleRestoreSession = (session: SavedSession) => {
+    setEditedPositions(session.positions || {});
+    resetTopology(session.topology);
+    // A recovered session is not saved to any file yet
+    setSavedTopology(defaultTopology);
+    setFileName(session.fileName);
+    fileHandleRef.current = null;
+    setActiveTab(session.activeTab as SidebarTab);
+
+    const selection = session.selection;
+    setSelectedNodeInfo(selection);
+    setMultiSelection([]);
+    setSelectedNode(
+      selection?.type === 'main'
+        ? session.topology.nodes.find(n => n.connection === selection.nodeId) || null
+        : null
+    );
+
+    sessionIdRef.current = session.id;
+    sessionStoredRef.current = true;
+    setRecoverySessions([]);
+  };
+
+  const handleDiscardSession = (id: string) => {
+    discardSession(id);
+    const remaining = recoverySessions.filter(session => session.id !== id);
+    setRecoverySessions(remaining);
+    if (remaining.length === 0) {
+      loadDefaultTopology();
+    }
+  };
+
+  const handleStartFresh = () => {
+    setRecoverySessions([]);
+    loadDefaultTopology();
+  };
+
+  // Replace the topology with a file opened or dropped by the user
+  const loadOpenedFile = useCallback((opened: OpenedFile) => {
+    const { topology: parsedTopology, layout, errors } = parseTopology(opened.text);
+    if (!parsedTopology) {
+      alert(`${opened.name} is not a valid topology:\n${formatSchemaErrors(errors)}`);
+      return;
+    }
+
+    const loaded: Topology = {
+      logical: parsedTopology.logical,
+      nodes: parsedTopology.nodes
+    };
+    // Files without a layout section start from a fresh automatic layout
+    setEditedPositions(layoutToPositions(layout));
+    resetTopology(loaded);
+    setSavedTopology(loaded);
+    setFileName(opened.name);
+    fileHandleRef.current = opened.handle;
+    setSelectedNodeInfo(null);
+    setSelectedNode(null);
+    setMultiSelection([]);
+    setLoadError('');
+  }, [resetTopology, setEditedPositions]);
+
+  const confirmDiscardChanges = useCallback(
+    () => !isDirty || window.confirm('You have unsaved changes. Discard them?'),
+    [isDirty]
+  );
+
+  const handleOpenFile = useCallback(async () => {
+    if (!confirmDiscardChanges()) return;
+
+    try {
+      const opened = await openTopologyFile();
+      if (opened) loadOpenedFile(opened);
+    } catch (error) {
+      alert(`Could not open file: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }, [confirmDiscardChanges, loadOpenedFile]);
+
+  // YAML for saved and exported files, with the current graph positions unless stripped.
+  // The layout is left out while comparing, when the edited graph is not shown.
+  const serializeForFile = useCallback(
+    (state: Topology) =>
+      serializeTopology(
+        state,
+        includeLayout && !comparingRef.current
+          ? positionsToLayout(state, graphApiRef.current?.getNodePositions() || {})
+          : undefined
+      ),
+    [includeLayout]
+  );
+
+  // Save writes back to the opened file where the browser allows it; Save As picks a new file
+  const handleSaveFile = useCallback(async (saveAs: boolean) => {
+    let targetName = fileName;
+    if (saveAs && !supportsSavePicker()) {
+      const entered = window.prompt('Save as:', fileName);
+      if (!entered) return;
+      targetName = entered;
+    }
+
+    const savedState = topology;
+    try {
+      const saved = await saveTopologyFile(serializeForFile(savedState), targetName, fileHandleRef.current, saveAs);
+      if (saved) {
+        setFileName(saved.name);
+        fileHandleRef.current = saved.handle;
+        setSavedTopology(savedState);
+        // The file now has these changes; edits made since are autosaved again
+        forgetSession();
+      }
+    } catch (error) {
+      alert(`Could not save file: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }, [fileName, topology, serializeForFile]);
+
+  // Download the graph as an image named after the topology file
+  const handleExportImage = async (format: ImageFormat, scale: number, options: ImageExportOptions) => {
+    const baseName = fileName.replace(/\.ya?ml$/i, '');
+    try {
+      const exported = (comparingRef.current ? compareGraphApiRef : graphApiRef).current?.exportSvg(options);
+      if (!exported) return;
+
+      if (format === 'svg') {
+        downloadBlob(new Blob([exported.svg], { type: 'image/svg+xml' }), `${baseName}.svg`);
+      } else {
+        downloadBlob(await svgToPng(exported, scale), `${baseName}.png`);
+      }
+      setShowImageExport(false);
+    } catch (error) {
+      alert(`Could not export image: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  // Load a YAML file dropped onto the graph canvas
+  const handleFileDrop = async (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDraggingFile(false);
+
+    const file = event.dataTransfer.files[0];
+    if (!file) return;
+    if (!isYamlFileName(file.name)) {
+      alert('Only .yaml and .yml files can be loaded');
+      return;
+    }
+    if (!confirmDiscardChanges()) return;
+
+    try {
+      const opened = await readDroppedFile(event.dataTransfer);
+      if (opened) loadOpenedFile(opened);
+    } catch (error) {
+      alert(`Could not read file: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  // Drop this session from local storage once its changes are in a file
+  const forgetSession = () => {
+    if (!sessionStoredRef.current) return;
+    discardSession(sessionIdRef.current);
+    sessionStoredRef.current = false;
+  };
+
+  // Autosave the editor state to local storage
+  const persistSession = () => {
+    // Nothing worth recovering while every change is saved
+    if (!isDirty) {
+      forgetSession();
+      return;
+    }
+
+    saveSession({
+      id: sessionIdRef.current,
+      savedAt: Date.now(),
+      fileName,
+      nodeCount: topology.nodes.length,
+      topology,
+      selection: selectedNodeInfo,
+      activeTab,
+      positions: getEditedPositions()
+    });
+    sessionStoredRef.current = true;
+  };
+  const persistSessionRef = useRef(persistSession);
+  persistSessionRef.current = persistSession;
+
+  useEffect(() => {
+    // Don't overwrite anything while the user is choosing a session to recover
+    if (recoverySessions.length) return;
+
+    const timer = window.setTimeout(() => persistSessionRef.current(), 1000);
+    return () => window.clearTimeout(timer);
+  }, [topology, isDirty, selectedNodeInfo, activeTab, fileName, recoverySessions.length]);
+
+  // Also save when the page is hidden, which captures the latest graph positions
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden' && !recoverySessions.length) {
+        persistSessionRef.current();
       }
     };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [recoverySessions.length]);
+
+  // Warn before leaving the page with unsaved changes
+  useEffect(() => {
+    if (!isDirty) return;
 
-    loadTopology();
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [isDirty]);
+
+  // Restore the selection stored in a history entry after undo/redo
+  const restoreHistoryEntry = useCallback((entry: HistoryEntry | null) => {
+    if (!entry) return;
+
+    const { selection, topology: restored } = entry;
+    setSelectedNodeInfo(selection);
+    // Bulk edits are recorded without a single selection; keep the group selected
+    if (selection) {
+      setMultiSelection([]);
+    }
+    if (selection && selection.type === 'main') {
+      setSelectedNode(restored.nodes.find(n => n.connection === selection.nodeId) || null);
+    } else {
+      setSelectedNode(null);
+    }
   }, []);
 
+  // Move graph positions and the remaining selections along with a renamed node
+  const followRename = useCallback(({ from, to }: NodeRename) => {
+    const hiddenPositions = editedPositionsRef.current;
+    if (hiddenPositions) {
+      editedPositionsRef.current = Object.fromEntries(
+        Object.entries(hiddenPositions).map(([id, position]) => [renameSatelliteId(id, from, to), position])
+      );
+    } else {
+      graphApiRef.current?.renameNode(from, to);
+    }
+    setMultiSelection(ids => ids.map(id => (id === from ? to : id)));
+    setSelectedEdge(edge => renameEdgeSelection(edge, from, to));
+  }, []);
+
+  // Undoing a rename renames the node back; redoing it renames it again
+  const handleUndo = useCallback(() => {
+    const entry = undo();
+    if (entry?.rename) followRename({ from: entry.rename.to, to: entry.rename.from });
+    restoreHistoryEntry(entry);
+  }, [undo, restoreHistoryEntry, followRename]);
+  const handleRedo = useCallback(() => {
+    const entry = redo();
+    if (entry?.rename) followRename(entry.rename);
+    restoreHistoryEntry(entry);
+  }, [redo, restoreHistoryEntry, followRename]);
+
+  // Keyboard shortcuts: Ctrl+Z to undo, Ctrl+Shift+Z (or Ctrl+Y) to redo,
+  // Ctrl+O to open, Ctrl+S to save and Ctrl+Shift+S to save as
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+
+      // File commands work everywhere, including text fields
+      const fileKey = event.key.toLowerCase();
+      if (fileKey === 's') {
+        event.preventDefault();
+        handleSaveFile(event.shiftKey);
+        return;
+      }
+      if (fileKey === 'o') {
+        event.preventDefault();
+        handleOpenFile();
+        return;
+      }
+
+      // Leave text fields to the browser's own undo
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) {
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo, handleSaveFile, handleOpenFile]);
+
   // Handle node selection with proper typing
   const handleNodeSelect = (selection: NodeSelection) => {
     setSelectedNodeInfo(selection);
+    setSelectedEdge(null);
+    setMultiSelection([]);
     
     // Update the selectedNode based on selection type
     if (selection === null) {
@@ -62,6 +482,203 @@ const App: React.FC = () => {
     }
   };
 
+  // Selecting a link clears the node selection
+  const handleEdgeSelect = (edge: EdgeSelection) => {
+    setSelectedEdge(edge);
+    setSelectedNodeInfo(null);
+    setSelectedNode(null);
+    setMultiSelection([]);
+  };
+
+  // Main nodes highlighted in the graph: the group, or the single selected node
+  const graphSelectedIds = useMemo(
+    () =>
+      multiSelection.length
+        ? multiSelection
+        : selectedNodeInfo?.type === 'main'
+        ? [selectedNodeInfo.nodeId]
+        : [],
+    [multiSelection, selectedNodeInfo]
+  );
+
+  // Selected group members that still exist, e.g. after undo
+  const multiSelectedNodes = useMemo(
+    () => topology.nodes.filter(node => multiSelection.includes(node.connection)),
+    [topology, multiSelection]
+  );
+
+  // Shift+click and rectangle selection in the graph; one node is a normal selection
+  const handleSelectNodes = (ids: string[]) => {
+    if (ids.length <= 1) {
+      handleNodeSelect(ids.length ? { type: 'main', nodeId: ids[0] } : null);
+      return;
+    }
+
+    setMultiSelection(ids);
+    setSelectedNodeInfo(null);
+    setSelectedNode(null);
+    setSelectedEdge(null);
+    setActiveTab('editor');
+  };
+
+  const selectedConnections = multiSelectedNodes.map(node => node.connection);
+
+  const handleBulkCapacityChange = (capacity: number) => {
+    setTopology(setCapacity(topology, selectedConnections, capacity), { group: `${selectedConnections.join(',')}:capacity` });
+  };
+
+  const handleDeleteNodes = () => {
+    if (!window.confirm(`Are you sure you want to delete ${selectedConnections.length} nodes?`)) return;
+
+    setTopology(deleteNodes(topology, selectedConnections));
+    setMultiSelection([]);
+  };
+
+  const handleAddSourceToNodes = (logical: string) => {
+    setTopology(addSourceToNodes(topology, selectedConnections, logical));
+  };
+
+  const handleAddSinkToNodes = (name: string) => {
+    setTopology(addSinkToNodes(topology, selectedConnections, name));
+  };
+
+  // The selected link, or undefined once it no longer exists (e.g. after undo)
+  const selectedEdgeDetails = useMemo(
+    () =>
+      selectedEdge
+        ? buildEdges(topology).find(
+            edge => edge.source === selectedEdge.source && edge.target === selectedEdge.target
+          )
+        : undefined,
+    [topology, selectedEdge]
+  );
+
+  // Links drawn on the canvas are stored in downstream form
+  const handleCreateLink = (source: string, target: string) => {
+    if (source === target || hasEdge(topology, source, target)) return;
+
+    setTopology(addEdge(topology, source, target));
+    handleEdgeSelect({ source, target });
+  };
+
+  const handleReverseEdge = (source: string, target: string) => {
+    if (hasEdge(topology, target, source)) {
+      alert(`${target} is already linked to ${source}`);
+      return;
+    }
+
+    setTopology(reverseEdge(topology, source, target));
+    handleEdgeSelect({ source: target, target: source });
+  };
+
+  const handleDeleteEdge = useCallback((source: string, target: string) => {
+    setTopology(removeEdge(topology, source, target));
+    setSelectedEdge(null);
+  }, [topology, setTopology]);
+
+  // Delete removes the selected link
+  useEffect(() => {
+    if (!selectedEdgeDetails) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'Delete' && event.key !== 'Backspace') return;
+
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) {
+        return;
+      }
+
+      event.preventDefault();
+      handleDeleteEdge(selectedEdgeDetails.source, selectedEdgeDetails.target);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedEdgeDetails, handleDeleteEdge]);
+
+  // Semantic problems of the current topology, shown in the problems panel
+  const problems = useMemo(() => validateTopology(topology), [topology]);
+
+  // Load of each node against its capacity, shown in the graph and the capacity panel
+  const utilization = useMemo(
+    () => computeUtilization(topology, utilizationWeights),
+    [topology, utilizationWeights]
+  );
+  const overloadedCount = utilization.filter(entry => entry.overloaded).length;
+
+  // Differences between the edited topology and the compared one
+  const topologyDiff = useMemo(() => {
+    if (!comparison) return null;
+    return comparisonSwapped
+      ? diffTopologies(comparison.topology, topology)
+      : diffTopologies(topology, comparison.topology);
+  }, [topology, comparison, comparisonSwapped]);
+
+  // The edited graph is drawn again after a comparison; give it back its positions
+  useEffect(() => {
+    if (comparison || !editedPositionsRef.current) return;
+    graphApiRef.current?.setNodePositions(editedPositionsRef.current);
+    editedPositionsRef.current = null;
+  }, [comparison]);
+
+  // Start comparing with a topology given as YAML; returns an explanation if it is not valid
+  const handleCompare = (text: string, name: string): string | null => {
+    const { topology: parsedTopology, errors } = parseTopology(text);
+    if (!parsedTopology) {
+      return `${name} is not a valid topology:\n${formatSchemaErrors(errors)}`;
+    }
+
+    editedPositionsRef.current = graphApiRef.current?.getNodePositions() || {};
+    setComparison({ name, topology: { logical: parsedTopology.logical, nodes: parsedTopology.nodes } });
+    setSelectedNodeInfo(null);
+    setSelectedNode(null);
+    setSelectedEdge(null);
+    setMultiSelection([]);
+    return null;
+  };
+
+  // Dataflow paths from the selected source, or into the selected sink
+  const dataflowTrace = useMemo(() => {
+    if (selectedNodeInfo?.type === 'physical' && selectedNodeInfo.physicalSourceIndex !== undefined) {
+      return traceFromSource(topology, selectedNodeInfo.parentId, selectedNodeInfo.physicalSourceIndex);
+    }
+    if (selectedNodeInfo?.type === 'sink' && selectedNodeInfo.sinkIndex !== undefined) {
+      return traceToSink(topology, selectedNodeInfo.parentId, selectedNodeInfo.sinkIndex);
+    }
+    return null;
+  }, [topology, selectedNodeInfo]);
+
+  // Select the item a problem refers to
+  const handleSelectProblem = (problem: Problem) => {
+    if (problem.location.selection) {
+      handleNodeSelect(problem.location.selection);
+    } else if (problem.location.schemaName !== undefined) {
+      setActiveTab('logical');
+    }
+  };
+
+  // Rename a node's connection and everything that refers to it.
+  // Returns an explanation if the new address is refused.
+  const handleRenameNode = (from: string, to: string): string | null => {
+    const address = to.trim();
+    if (address === from) return null;
+
+    const conflict = findAddressConflict(topology, address, from);
+    if (conflict) return conflict;
+
+    const updatedTopology = renameConnection(topology, from, address);
+    followRename({ from, to: address });
+    setTopology(updatedTopology, { rename: { from, to: address } });
+
+    const updatedSelection = renameSelection(selectedNodeInfo, from, address);
+    setSelectedNodeInfo(updatedSelection);
+    if (selectedNode) {
+      const selectedConnection = selectedNode.connection === from ? address : selectedNode.connection;
+      setSelectedNode(updatedTopology.nodes.find(n => n.connection === selectedConnection) || null);
+    }
+    return null;
+  };
+
   const handlePropertyChange = (property: string, value: any) => {
     // Handle special selection properties
     if (property === '_selectSource') {
@@ -74,6 +691,7 @@ const App: React.FC = () => {
     }
     if (property === '_selectNode') {
       setSelectedNodeInfo(value);
+      setMultiSelection([]);
       if (value.type === 'main') {
         const node = topology.nodes.find(n => n.connection === value.nodeId);
         setSelectedNode(node || null);
@@ -81,6 +699,15 @@ const App: React.FC = () => {
       return;
     }
 
+    // Changing the connection renames the node, including all references to it
+    if (selectedNode && property === 'connection') {
+      const conflict = handleRenameNode(selectedNode.connection, value);
+      if (conflict) {
+        alert(`Cannot rename node: ${conflict}`);
+      }
+      return;
+    }
+
     // Handle for main nodes
     if (selectedNode) {
       const updatedNodes = topology.nodes.map(node => {
@@ -90,8 +717,6 @@ const App: React.FC = () => {
             return { ...node, capacity: Number(value) };
           } else if (property === 'grpc') {
             return { ...node, grpc: value };
-          } else if (property === 'connection') {
-            return { ...node, connection: value };
           } else if (property === 'physical') {
             return { ...node, physical: value };
           } else if (property === 'sinks') {
@@ -119,10 +744,11 @@ const App: React.FC = () => {
         return node;
       });
 
+      // Group consecutive edits of the same field into one undo step
       setTopology({
         ...topology,
         nodes: updatedNodes
-      });
+      }, { group: `${selectedNode.connection}:${property}` });
       
       // Update selected node to reflect changes
       const updatedNode = updatedNodes.find(n => n.connection === selectedNode.connection);
@@ -187,7 +813,7 @@ const App: React.FC = () => {
       setTopology({
         ...topology,
         nodes: updatedNodes
-      });
+      }, { group: `${parentId}:physical[${index}]:${property}` });
     } else if (selectedNodeInfo && selectedNodeInfo.type === 'sink') {
       const { parentId, sinkIndex } = selectedNodeInfo;
       const index = sinkIndex; // For backward compatibility with existing code
@@ -216,7 +842,7 @@ const App: React.FC = () => {
       setTopology({
         ...topology,
         nodes: updatedNodes
-      });
+      }, { group: `${parentId}:${property}` });
     }
   };
 
@@ -344,6 +970,56 @@ const App: React.FC = () => {
     }
   };
 
+  // Context menu operations on the graph, built on the handlers above
+  const graphContextActions: GraphContextActions = {
+    addSource: (nodeId, logical) => {
+      const index = topology.nodes.find(n => n.connection === nodeId)?.physical?.length || 0;
+      handleAddSource(nodeId, createPhysicalSource(logical));
+      handleNodeSelect({
+        type: 'physical',
+        nodeId: `${nodeId}-physical-${index}`,
+        parentId: nodeId,
+        name: logical,
+        physicalSourceIndex: index
+      });
+    },
+    addSink: (nodeId) => {
+      const index = topology.nodes.find(n => n.connection === nodeId)?.sinks?.length || 0;
+      const name = uniqueSinkName(topology, 'sink');
+      handleAddSink(nodeId, createSink(name));
+      handleNodeSelect({ type: 'sink', nodeId: `${nodeId}-sink-${index}`, parentId: nodeId, name, sinkIndex: index });
+    },
+    duplicateNode: (nodeId) => {
+      const { topology: updatedTopology, connection } = duplicateNode(topology, nodeId);
+      setTopology(updatedTopology);
+      handleNodeSelect({ type: 'main', nodeId: connection });
+      // handleNodeSelect looks the node up in the topology before the copy was added
+      setSelectedNode(updatedTopology.nodes.find(n => n.connection === connection) || null);
+    },
+    deleteNode: (nodeId) => {
+      if (!window.confirm(`Are you sure you want to delete node '${nodeId}'?`)) return;
+
+      setTopology(deleteNode(topology, nodeId));
+      const selectedParent =
+        selectedNodeInfo?.type === 'main' ? selectedNodeInfo.nodeId : selectedNodeInfo?.parentId;
+      if (selectedParent === nodeId) {
+        handleNodeSelect(null);
+      }
+    },
+    duplicateSatellite: (kind, parentId, index) => {
+      setTopology(duplicateSatellite(topology, kind, parentId, index));
+    },
+    removeSatellite: (kind, parentId, index) => {
+      if (kind === 'physical') {
+        handleRemoveSource(parentId, index);
+      } else {
+        handleRemoveSink(parentId, index);
+      }
+    },
+    reverseEdge: handleReverseEdge,
+    deleteEdge: handleDeleteEdge
+  };
+
   // Handle node reassignment (when dragging physical/sink nodes to other main nodes)
   const handleNodeReassign = (event: CustomEvent) => {
     const { sourceNodeId, targetNodeId, nodeType } = event.detail;
@@ -421,7 +1097,7 @@ const App: React.FC = () => {
   const stableNodeReassignHandler = useCallback((event: CustomEvent) => {
     const { sourceNodeId, targetNodeId, nodeType } = event.detail;
     
-    if (!sourceNodeId || !targetNodeId) return;
+    if (!sourceNodeId || !targetNodeId || comparingRef.current) return;
     
     console.log('Node reassign event:', sourceNodeId, 'to', targetNodeId, 'type:', nodeType);
     
@@ -432,8 +1108,8 @@ const App: React.FC = () => {
     // Get the latest topology from ref
     const currentTopology = topologyRef.current;
     
-    // Clone the nodes for immutability
-    const updatedNodes = [...currentTopology.nodes];
+    // Clone the nodes for immutability - the previous topology is kept in the undo history
+    const updatedNodes = currentTopology.nodes.map(node => ({ ...node }));
     
     // Find source and target nodes
     const sourceMainNode = updatedNodes.find(n => n.connection === sourceMainNodeId);
@@ -461,10 +1137,7 @@ const App: React.FC = () => {
       }
       
       // Add to target node
-      if (!targetMainNode.physical) {
-        targetMainNode.physical = [];
-      }
-      targetMainNode.physical.push(sourceToMove);
+      targetMainNode.physical = [...(targetMainNode.physical || []), sourceToMove];
       
       // Update selection to new node
       setSelectedNodeInfo(null);
@@ -483,10 +1156,7 @@ const App: React.FC = () => {
       }
       
       // Add to target node
-      if (!targetMainNode.sinks) {
-        targetMainNode.sinks = [];
-      }
-      targetMainNode.sinks.push(sinkToMove);
+      targetMainNode.sinks = [...(targetMainNode.sinks || []), sinkToMove];
       
       // Update selection to new node
       setSelectedNodeInfo(null);
@@ -528,54 +1198,183 @@ const App: React.FC = () => {
     });
   };
 
+  // Apply a change to the schemas and their sources, keeping the selection in step
+  const applySchemaChange = (updatedTopology: Topology, from: string, to: string | null) => {
+    setTopology(updatedTopology);
+    if (selectedNodeInfo?.type === 'physical' && selectedNodeInfo.name === from) {
+      setSelectedNodeInfo(to !== null ? { ...selectedNodeInfo, name: to } : null);
+    } else if (to === null && selectedNodeInfo?.type === 'physical') {
+      // Removing sources shifts the indices of the ones after them
+      const parent = selectedNodeInfo.parentId;
+      if (findSchemaUsers(topology, from).some(user => user.connection === parent)) {
+        setSelectedNodeInfo(null);
+      }
+    }
+    if (selectedNode) {
+      setSelectedNode(updatedTopology.nodes.find(n => n.connection === selectedNode.connection) || null);
+    }
+    // A bulk selection is not kept across changes to the sources it spans
+    setMultiSelection([]);
+  };
+
+  // Renaming a schema also renames it in every physical source that uses it
   const handleUpdateLogicalSchema = (index: number, schema: LogicalSchema) => {
-    if (!topology.logical) return;
-    
-    const updatedLogical = [...topology.logical];
-    updatedLogical[index] = schema;
-    
-    setTopology({
-      ...topology,
-      logical: updatedLogical
-    });
+    const previous = topology.logical?.[index];
+    if (!previous) return;
+
+    applySchemaChange(updateLogicalSchema(topology, index, schema), previous.name, schema.name);
   };
 
+  // Schemas that are still in use need a decision about their sources first
   const handleRemoveLogicalSchema = (index: number) => {
-    if (!topology.logical) return;
-    
-    const updatedLogical = [...topology.logical];
-    updatedLogical.splice(index, 1);
-    
-    setTopology({
-      ...topology,
-      logical: updatedLogical.length ? updatedLogical : undefined
-    });
+    const schema = topology.logical?.[index];
+    if (!schema) return;
+
+    if (findSchemaUsers(topology, schema.name).length) {
+      setPendingSchemaRemoval(schema.name);
+      return;
+    }
+    setTopology(removeLogicalSchema(topology, index, null));
+  };
+
+  // Finish a pending removal; `replacement` null removes the sources too. The schemas
+  // are looked up again, as undo and redo still work while the dialog is open.
+  const handleConfirmSchemaRemoval = (replacement: string | null) => {
+    const schemaNames = (topology.logical || []).map(schema => schema.name);
+    const index = pendingSchemaRemoval !== null ? schemaNames.indexOf(pendingSchemaRemoval) : -1;
+    setPendingSchemaRemoval(null);
+    if (index === -1 || (replacement !== null && !schemaNames.includes(replacement))) return;
+
+    applySchemaChange(removeLogicalSchema(topology, index, replacement), schemaNames[index], replacement);
   };
 
+  const pendingSchemaName = topology.logical?.find(schema => schema.name === pendingSchemaRemoval)?.name;
+
+  // Forget a pending removal when undo or redo takes the schema away
+  useEffect(() => {
+    if (pendingSchemaRemoval !== null && pendingSchemaName === undefined) {
+      setPendingSchemaRemoval(null);
+    }
+  }, [pendingSchemaRemoval, pendingSchemaName]);
+
   return (
     <div className="app">
       <header>
         <h1>Graph Topology Editor</h1>
+        <div className="file-status" title={isDirty ? 'Unsaved changes' : 'All changes saved'}>
+          {fileName}
+          {isDirty && <span className="unsaved-indicator"> ● unsaved</span>}
+        </div>
         <div className="controls">
+          <button onClick={handleOpenFile} title="Open (Ctrl+O)">Open</button>
+          <button onClick={() => handleSaveFile(false)} title="Save (Ctrl+S)">Save</button>
+          <button onClick={() => handleSaveFile(true)} title="Save As (Ctrl+Shift+S)">Save As</button>
+          <label className="layout-toggle" title="Store node positions in a layout section of saved and exported files">
+            <input
+              type="checkbox"
+              checked={includeLayout}
+              onChange={(e) => setIncludeLayout(e.target.checked)}
+            />
+            Save layout
+          </label>
+          <button onClick={() => setShowImageExport(true)} title="Download the diagram as SVG or PNG">
+            Export Image
+          </button>
+          <button onClick={handleUndo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+            Undo
+          </button>
+          <button onClick={handleRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+            Redo
+          </button>
           <button onClick={() => setShowTopologyEditor(prev => !prev)}>
             {showTopologyEditor ? 'Hide YAML Editor' : 'Show YAML Editor'}
           </button>
         </div>
       </header>
 
+      {recoverySessions.length > 0 && (
+        <SessionRecovery
+          sessions={recoverySessions}
+          onRestore={handleRestoreSession}
+          onDiscard={handleDiscardSession}
+          onStartFresh={handleStartFresh}
+        />
+      )}
+
+      {showImageExport && (
+        <ImageExportDialog
+          onExport={handleExportImage}
+          onClose={() => setShowImageExport(false)}
+        />
+      )}
+
+      {pendingSchemaName !== undefined && (
+        <SchemaRemovalDialog
+          schemaName={pendingSchemaName}
+          users={findSchemaUsers(topology, pendingSchemaName)}
+          otherSchemas={(topology.logical || []).map(schema => schema.name).filter(name => name !== pendingSchemaName)}
+          onReassign={handleConfirmSchemaRemoval}
+          onDeleteSources={() => handleConfirmSchemaRemoval(null)}
+          onCancel={() => setPendingSchemaRemoval(null)}
+        />
+      )}
+
       <main>
-        <div ref={graphRef} className="graph-wrapper">
-          <GraphVisualization 
-            topology={topology} 
-            onNodeSelect={handleNodeSelect} 
-          />
+        {loadError && <div className="error load-error">{loadError}</div>}
+
+        <div
+          ref={graphRef}
+          className={`graph-wrapper ${isDraggingFile ? 'file-drag-over' : ''}`}
+          onDragOver={(e) => {
+            if (!e.dataTransfer.types.includes('Files')) return;
+            e.preventDefault();
+            setIsDraggingFile(true);
+          }}
+          onDragLeave={() => setIsDraggingFile(false)}
+          onDrop={handleFileDrop}
+        >
+          {topologyDiff ? (
+            <GraphVisualization
+              key="comparison"
+              ref={compareGraphApiRef}
+              topology={topologyDiff.union}
+              onNodeSelect={() => setActiveTab('compare')}
+              diff={topologyDiff.statuses}
+            />
+          ) : (
+            <GraphVisualization 
+              key="edited"
+              ref={graphApiRef}
+              topology={topology} 
+              onNodeSelect={handleNodeSelect} 
+              selectedEdge={selectedEdgeDetails ? selectedEdge : null}
+              onEdgeSelect={handleEdgeSelect}
+              onCreateLink={handleCreateLink}
+              contextActions={graphContextActions}
+              selectedNodeIds={graphSelectedIds}
+              onSelectNodes={handleSelectNodes}
+              utilization={utilization}
+              trace={dataflowTrace}
+            />
+          )}
+          {selectedEdgeDetails && (
+            <EdgeInspector
+              edge={selectedEdgeDetails}
+              onReverse={() => handleReverseEdge(selectedEdgeDetails.source, selectedEdgeDetails.target)}
+              onDelete={() => handleDeleteEdge(selectedEdgeDetails.source, selectedEdgeDetails.target)}
+              onClose={() => setSelectedEdge(null)}
+            />
+          )}
         </div>
 
         {showTopologyEditor && (
           <div className="yaml-editor-container">
             <TopologyEditor 
               topology={topology} 
-              setTopology={setTopology} 
+              setTopology={(updated) => setTopology(updated, { group: 'yaml-editor' })} 
+              fileName={fileName}
+              serialize={serializeForFile}
+              onLayoutLoaded={(layout) => setEditedPositions(layoutToPositions(layout))}
             />
           </div>
         )}
@@ -600,6 +1399,24 @@ const App: React.FC = () => {
             >
               Logical
             </button>
+            <button 
+              className={activeTab === 'problems' ? 'active' : ''}
+              onClick={() => setActiveTab('problems')}
+            >
+              Problems{problems.length > 0 && <span className="tab-badge">{problems.length}</span>}
+            </button>
+            <button 
+              className={activeTab === 'capacity' ? 'active' : ''}
+              onClick={() => setActiveTab('capacity')}
+            >
+              Capacity{overloadedCount > 0 && <span className="tab-badge">{overloadedCount}</span>}
+            </button>
+            <button 
+              className={activeTab === 'compare' ? 'active' : ''}
+              onClick={() => setActiveTab('compare')}
+            >
+              Compare
+            </button>
           </div>
 
           {activeTab === 'controls' ? (
@@ -613,10 +1430,38 @@ const App: React.FC = () => {
               selectedNodeId={selectedNodeInfo}
               topology={topology}
               onPropertyChange={handlePropertyChange}
+              onRenameNode={handleRenameNode}
               onAddSource={handleAddSource}
               onAddSink={handleAddSink}
               onRemoveSource={handleRemoveSource}
               onRemoveSink={handleRemoveSink}
+              selectedNodes={multiSelectedNodes}
+              onBulkCapacityChange={handleBulkCapacityChange}
+              onDeleteNodes={handleDeleteNodes}
+              onAddSourceToNodes={handleAddSourceToNodes}
+              onAddSinkToNodes={handleAddSinkToNodes}
+              trace={dataflowTrace}
+            />
+          ) : activeTab === 'capacity' ? (
+            <UtilizationPanel
+              utilization={utilization}
+              weights={utilizationWeights}
+              onWeightsChange={setUtilizationWeights}
+              onSelectNode={(connection) => handleNodeSelect({ type: 'main', nodeId: connection })}
+            />
+          ) : activeTab === 'compare' ? (
+            <ComparePanel
+              diff={topologyDiff}
+              comparedName={comparison?.name || ''}
+              swapped={comparisonSwapped}
+              onCompare={handleCompare}
+              onSwap={() => setComparisonSwapped(!comparisonSwapped)}
+              onClose={() => setComparison(null)}
+            />
+          ) : activeTab === 'problems' ? (
+            <ProblemsPanel
+              problems={problems}
+              onSelectProblem={handleSelectProblem}
             />
           ) : (
             <LogicalEditor
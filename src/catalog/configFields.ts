@@ -0,0 +1,101 @@
+// Shared definitions for typed configuration forms (source, parser and sink configs)
+
+export type ConfigFieldType = 'string' | 'integer' | 'number' | 'boolean' | 'enum';
+
+export type ConfigValue = string | number | boolean;
+
+export interface ConfigFieldDefinition {
+  key: string;
+  label: string;
+  type: ConfigFieldType;
+  required?: boolean;
+  default?: ConfigValue;
+  // Allowed values for enum fields
+  options?: string[];
+  description?: string;
+  // String fields holding control characters (e.g. delimiters) are edited with escapes like \n
+  escaped?: boolean;
+}
+
+export interface ConfigTypeDefinition {
+  // Value of the `type` key in the YAML
+  type: string;
+  label: string;
+  fields: ConfigFieldDefinition[];
+}
+
+export type ConfigObject = { type: string; [key: string]: any };
+
+export const findConfigType = (catalogue: ConfigTypeDefinition[], type: string) =>
+  catalogue.find(definition => definition.type.toLowerCase() === type.toLowerCase());
+
+// Convert a value to the field's data type, or return undefined if it cannot be converted
+export const coerceConfigValue = (value: unknown, field: ConfigFieldDefinition): ConfigValue | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+
+  switch (field.type) {
+    case 'integer': {
+      const number = Number(value);
+      return Number.isInteger(number) ? number : undefined;
+    }
+    case 'number': {
+      const number = Number(value);
+      return Number.isFinite(number) ? number : undefined;
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (value === 'true') return true;
+      if (value === 'false') return false;
+      return undefined;
+    case 'enum':
+      return field.options?.includes(String(value)) ? String(value) : undefined;
+    default:
+      return typeof value === 'object' ? undefined : String(value);
+  }
+};
+
+// Carry values over to the fields of `definition`. Fields that exist in both
+// are kept (converted if needed), fields that no longer apply are dropped,
+// and new fields get their defaults.
+export const migrateFields = (
+  values: { [key: string]: any },
+  definition: ConfigTypeDefinition
+): { [key: string]: ConfigValue } => {
+  const migrated: { [key: string]: ConfigValue } = {};
+
+  definition.fields.forEach(field => {
+    const value = coerceConfigValue(values[field.key], field);
+    if (value !== undefined) {
+      migrated[field.key] = value;
+    } else if (field.default !== undefined) {
+      migrated[field.key] = field.default;
+    }
+  });
+
+  return migrated;
+};
+
+// Build a config for `definition` from an existing config of another type
+export const migrateConfig = (config: ConfigObject, definition: ConfigTypeDefinition): ConfigObject => ({
+  type: definition.type,
+  ...migrateFields(config, definition)
+});
+
+// A fresh config of the given type with all defaults filled in
+export const createConfig = (definition: ConfigTypeDefinition): ConfigObject =>
+  migrateConfig({ type: definition.type }, definition);
+
+// Required fields of the definition that have no value in the config
+export const missingRequiredFields = (config: ConfigObject, definition: ConfigTypeDefinition): string[] =>
+  definition.fields
+    .filter(field => field.required && coerceConfigValue(config[field.key], field) === undefined)
+    .map(field => field.key);
+
+// Show control characters such as newlines as escape sequences
+export const escapeValue = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/\r/g, '\\r').replace(/\t/g, '\\t');
+
+export const unescapeValue = (value: string) =>
+  value.replace(/\\([\\nrt])/g, (_, char: string) =>
+    char === 'n' ? '\n' : char === 'r' ? '\r' : char === 't' ? '\t' : '\\'
+  );
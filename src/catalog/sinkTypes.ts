@@ -0,0 +1,29 @@
+import { ConfigTypeDefinition } from './configFields';
+
+// Sink types supported in `Sink.type`, with the keys of their `config` section
+export const SINK_TYPES: ConfigTypeDefinition[] = [
+  {
+    type: 'Print',
+    label: 'Print',
+    fields: [
+      { key: 'inputFormat', label: 'Format', type: 'enum', options: ['CSV', 'JSON'], required: true, default: 'CSV' }
+    ]
+  },
+  {
+    type: 'File',
+    label: 'File',
+    fields: [
+      { key: 'filePath', label: 'File Path', type: 'string', required: true, default: '' },
+      { key: 'inputFormat', label: 'Format', type: 'enum', options: ['CSV', 'JSON'], required: true, default: 'CSV' },
+      { key: 'append', label: 'Append', type: 'boolean', default: false }
+    ]
+  },
+  {
+    type: 'Checksum',
+    label: 'Checksum',
+    fields: []
+  }
+];
+
+// Default for sinks added through the UI
+export const DEFAULT_SINK_TYPE = 'Print';
@@ -0,0 +1,62 @@
+import { ConfigTypeDefinition } from './configFields';
+
+// Source types supported in `sourceConfig.type`
+export const SOURCE_TYPES: ConfigTypeDefinition[] = [
+  {
+    type: 'File',
+    label: 'File',
+    fields: [
+      { key: 'filePath', label: 'File Path', type: 'string', required: true, default: '' }
+    ]
+  },
+  {
+    type: 'TCP',
+    label: 'TCP',
+    fields: [
+      { key: 'socketHost', label: 'Host', type: 'string', required: true, default: 'localhost' },
+      { key: 'socketPort', label: 'Port', type: 'integer', required: true },
+      { key: 'socketDomain', label: 'Socket Domain', type: 'enum', options: ['AF_INET', 'AF_INET6'], default: 'AF_INET' },
+      { key: 'socketType', label: 'Socket Type', type: 'enum', options: ['SOCK_STREAM', 'SOCK_DGRAM'], default: 'SOCK_STREAM' },
+      { key: 'flushIntervalMS', label: 'Flush Interval (ms)', type: 'integer' },
+      { key: 'connectTimeoutSeconds', label: 'Connect Timeout (s)', type: 'integer' }
+    ]
+  },
+  {
+    type: 'Generator',
+    label: 'Generator',
+    fields: [
+      { key: 'generatorSchema', label: 'Generator Schema', type: 'string', required: true, default: '' },
+      { key: 'seed', label: 'Seed', type: 'integer', default: 1 },
+      { key: 'maxRuntimeMS', label: 'Max Runtime (ms)', type: 'integer' },
+      { key: 'stopGeneratorWhenSequenceFinishes', label: 'Stop When Sequence Finishes', type: 'enum', options: ['ALL', 'ONE', 'NONE'], default: 'NONE' }
+    ]
+  }
+];
+
+// Parser types supported in `parserConfig.type`
+export const PARSER_TYPES: ConfigTypeDefinition[] = [
+  {
+    type: 'CSV',
+    label: 'CSV',
+    fields: [
+      { key: 'fieldDelimiter', label: 'Field Delimiter', type: 'string', default: ',', escaped: true },
+      { key: 'tupleDelimiter', label: 'Tuple Delimiter', type: 'string', default: '\n', escaped: true }
+    ]
+  },
+  {
+    type: 'JSON',
+    label: 'JSON',
+    fields: [
+      { key: 'tupleDelimiter', label: 'Tuple Delimiter', type: 'string', default: '\n', escaped: true }
+    ]
+  },
+  {
+    type: 'Native',
+    label: 'Native',
+    fields: []
+  }
+];
+
+// Defaults for physical sources added through the UI
+export const DEFAULT_SOURCE_TYPE = 'File';
+export const DEFAULT_PARSER_TYPE = 'CSV';
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { openTopologyFile } from '../utils/topologyFile';
+import { DiffStatus, FieldChange, nodeHasChanges, SatelliteDiff, TopologyDiff } from '../utils/topologyDiff';
+
+interface ComparePanelProps {
+  // Null until a topology to compare with has been loaded
+  diff: TopologyDiff | null;
+  comparedName: string;
+  // Whether the compared topology is the older side
+  swapped: boolean;
+  // Compare with a topology given as YAML; returns an explanation if it cannot be read
+  onCompare: (text: string, name: string) => string | null;
+  onSwap: () => void;
+  onClose: () => void;
+}
+
+const formatChange = (change: FieldChange) =>
+  `${change.field}: ${change.before ?? '(none)'} → ${change.after ?? '(none)'}`;
+
+const ChangeList: React.FC<{ changes: FieldChange[] }> = ({ changes }) => (
+  <ul className="diff-changes">
+    {changes.map(change => (
+      <li key={change.field}>{formatChange(change)}</li>
+    ))}
+  </ul>
+);
+
+const StatusBadge: React.FC<{ status: DiffStatus }> = ({ status }) => (
+  <span className={`diff-badge diff-${status}`}>{status}</span>
+);
+
+// Sources or sinks of a node that differ
+const SatelliteList: React.FC<{ kind: string; items: SatelliteDiff[] }> = ({ kind, items }) => (
+  <>
+    {items
+      .filter(item => item.status !== 'unchanged')
+      .map(item => (
+        <div key={item.index} className="diff-satellite">
+          <StatusBadge status={item.status} /> {kind} {item.label}
+          {item.status === 'changed' && <ChangeList changes={item.changes} />}
+        </div>
+      ))}
+  </>
+);
+
+// Load a second topology and list how it differs from the edited one; the
+// graph shows both together while a comparison is open
+const ComparePanel: React.FC<ComparePanelProps> = ({ diff, comparedName, swapped, onCompare, onSwap, onClose }) => {
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpenFile = async () => {
+    try {
+      const opened = await openTopologyFile();
+      if (opened) setError(onCompare(opened.text, opened.name));
+    } catch (err) {
+      setError(`Could not open file: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  if (!diff) {
+    return (
+      <div className="compare-panel">
+        <h2>Compare</h2>
+        <p className="field-hint">
+          Load another topology to see both in one graph, with added items in green, removed ones in red and
+          changed ones in amber.
+        </p>
+        <button onClick={handleOpenFile}>Open File...</button>
+        <textarea
+          className="compare-text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Or paste topology YAML here"
+          rows={10}
+        />
+        <button onClick={() => setError(onCompare(text, 'pasted topology'))} disabled={!text.trim()}>
+          Compare Pasted Text
+        </button>
+        {error && <div className="error">{error}</div>}
+      </div>
+    );
+  }
+
+  const [olderName, newerName] = swapped ? [comparedName, 'current topology'] : ['current topology', comparedName];
+  const changedNodes = diff.nodes.filter(nodeHasChanges);
+  const changedLinks = diff.links.filter(link => link.status !== 'unchanged');
+  const changedSchemas = diff.schemas.filter(schema => schema.status !== 'unchanged');
+
+  return (
+    <div className="compare-panel">
+      <h2>Compare</h2>
+      <div className="compare-sides">
+        From <strong>{olderName}</strong> to <strong>{newerName}</strong>
+      </div>
+      <div className="controls">
+        <button onClick={onSwap}>Swap Sides</button>
+        <button onClick={onClose}>Close Comparison</button>
+      </div>
+
+      {changedNodes.length + changedLinks.length + changedSchemas.length === 0 && (
+        <div className="empty-list">The topologies are the same</div>
+      )}
+
+      {changedSchemas.length > 0 && (
+        <div className="property-section">
+          <h4>Logical Schemas:</h4>
+          {changedSchemas.map(schema => (
+            <div key={schema.name} className="diff-entry">
+              <StatusBadge status={schema.status} /> {schema.name}
+              {schema.status === 'changed' && <ChangeList changes={schema.changes} />}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {changedNodes.length > 0 && (
+        <div className="property-section">
+          <h4>Nodes:</h4>
+          {changedNodes.map(node => (
+            <div key={node.connection} className="diff-entry">
+              {node.status !== 'unchanged' && <StatusBadge status={node.status} />} {node.connection}
+              {node.status === 'changed' && <ChangeList changes={node.changes} />}
+              {node.status !== 'added' && node.status !== 'removed' && (
+                <>
+                  <SatelliteList kind="source" items={node.physical} />
+                  <SatelliteList kind="sink" items={node.sinks} />
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {changedLinks.length > 0 && (
+        <div className="property-section">
+          <h4>Links:</h4>
+          {changedLinks.map(link => (
+            <div key={`${link.source}->${link.target}`} className="diff-entry">
+              <StatusBadge status={link.status} /> {link.source} → {link.target}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComparePanel;
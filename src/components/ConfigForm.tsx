@@ -0,0 +1,142 @@
+import React from 'react';
+import {
+  ConfigFieldDefinition,
+  ConfigTypeDefinition,
+  coerceConfigValue,
+  escapeValue,
+  unescapeValue
+} from '../catalog/configFields';
+import KeyValueEditor from './KeyValueEditor';
+
+interface ConfigFormProps {
+  // Field definitions for the config's type; undefined for unknown types
+  definition?: ConfigTypeDefinition;
+  config: { [key: string]: any };
+  onChange: (config: { [key: string]: any }) => void;
+  // Keys edited elsewhere, such as the `type` key of source configs
+  reservedKeys?: string[];
+}
+
+const ConfigForm: React.FC<ConfigFormProps> = ({ definition, config, onChange, reservedKeys = [] }) => {
+  const setValue = (key: string, value: any) => {
+    const updated = { ...config };
+    if (value === undefined) {
+      delete updated[key];
+    } else {
+      updated[key] = value;
+    }
+    onChange(updated);
+  };
+
+  const renderField = (field: ConfigFieldDefinition) => {
+    const value = config[field.key];
+    const placeholder =
+      field.default === undefined
+        ? undefined
+        : field.escaped
+        ? escapeValue(String(field.default))
+        : String(field.default);
+
+    if (field.type === 'boolean') {
+      return (
+        <select
+          value={value === undefined ? '' : String(value)}
+          onChange={(e) => setValue(field.key, e.target.value === '' ? undefined : e.target.value === 'true')}
+        >
+          {!field.required && <option value="">(not set)</option>}
+          <option value="true">True</option>
+          <option value="false">False</option>
+        </select>
+      );
+    }
+
+    if (field.type === 'enum') {
+      return (
+        <select
+          value={value === undefined ? '' : String(value)}
+          onChange={(e) => setValue(field.key, e.target.value === '' ? undefined : e.target.value)}
+        >
+          {(!field.required || value === undefined) && <option value="">(not set)</option>}
+          {field.options?.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+          {value !== undefined && !field.options?.includes(String(value)) && (
+            <option value={String(value)}>{String(value)}</option>
+          )}
+        </select>
+      );
+    }
+
+    if (field.type === 'integer' || field.type === 'number') {
+      return (
+        <input
+          type="number"
+          step={field.type === 'integer' ? 1 : 'any'}
+          value={value === undefined ? '' : value}
+          placeholder={placeholder}
+          onChange={(e) => setValue(field.key, coerceConfigValue(e.target.value, field))}
+        />
+      );
+    }
+
+    const text = value === undefined ? '' : String(value);
+    return (
+      <input
+        type="text"
+        value={field.escaped ? escapeValue(text) : text}
+        placeholder={placeholder}
+        onChange={(e) => {
+          const updated = field.escaped ? unescapeValue(e.target.value) : e.target.value;
+          setValue(field.key, updated === '' && !field.required ? undefined : updated);
+        }}
+      />
+    );
+  };
+
+  // Keys in the config that the type does not define, edited with the generic editor
+  const definedKeys = new Set([...reservedKeys, ...(definition?.fields.map(field => field.key) || [])]);
+  const otherValues: { [key: string]: unknown } = {};
+  Object.keys(config)
+    .filter(key => !definedKeys.has(key))
+    .forEach(key => {
+      otherValues[key] = config[key];
+    });
+
+  const handleOtherChange = (updated: { [key: string]: unknown }) => {
+    const result: { [key: string]: unknown } = {};
+    Object.keys(config)
+      .filter(key => definedKeys.has(key))
+      .forEach(key => {
+        result[key] = config[key];
+      });
+    onChange({ ...result, ...updated });
+  };
+
+  return (
+    <div className="config-form">
+      {definition?.fields.map(field => {
+        const missing = field.required && coerceConfigValue(config[field.key], field) === undefined;
+        return (
+          <div key={field.key} className="property-field">
+            <label title={field.description}>
+              {field.label}{field.required && <span className="required-marker"> *</span>}
+            </label>
+            {renderField(field)}
+            {missing && <div className="field-error">{field.label} is required</div>}
+          </div>
+        );
+      })}
+
+      {definition && definition.fields.length === 0 && Object.keys(otherValues).length === 0 && (
+        <div className="empty-list">No options for this type</div>
+      )}
+
+      <div className="config-other">
+        <label>{definition ? 'Additional settings' : 'Settings'}</label>
+        <KeyValueEditor value={otherValues} onChange={handleOtherChange} reservedKeys={Array.from(definedKeys)} />
+      </div>
+    </div>
+  );
+};
+
+export default ConfigForm;
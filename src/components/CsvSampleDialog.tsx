@@ -0,0 +1,134 @@
+import React, { useMemo, useState } from 'react';
+import { SchemaField } from '../types';
+import { escapeValue, unescapeValue } from '../catalog/configFields';
+import {
+  CsvSampleOptions,
+  DEFAULT_CSV_OPTIONS,
+  HeaderMode,
+  inferSchemaFromCsv,
+  toIdentifier
+} from '../utils/csvSample';
+
+interface CsvSampleDialogProps {
+  // Called with the proposed fields and a schema name taken from the sample file, if any
+  onUse: (fields: SchemaField[], name: string) => void;
+  onClose: () => void;
+}
+
+// Propose logical schema fields from a pasted or picked CSV sample
+const CsvSampleDialog: React.FC<CsvSampleDialogProps> = ({ onUse, onClose }) => {
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [options, setOptions] = useState<CsvSampleOptions>(DEFAULT_CSV_OPTIONS);
+
+  // Empty delimiters fall back to the parser defaults while they are being edited
+  const inferred = useMemo(
+    () =>
+      inferSchemaFromCsv(text, {
+        ...options,
+        fieldDelimiter: options.fieldDelimiter || DEFAULT_CSV_OPTIONS.fieldDelimiter,
+        tupleDelimiter: options.tupleDelimiter || DEFAULT_CSV_OPTIONS.tupleDelimiter
+      }),
+    [text, options]
+  );
+
+  // Only the start of large files is needed to infer the types
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setText(await file.slice(0, 64 * 1024).text());
+      setFileName(file.name);
+    } catch (error) {
+      alert(`Could not read ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  return (
+    <div className="modal" onClick={onClose}>
+      <div className="modal-content csv-sample" onClick={(e) => e.stopPropagation()}>
+        <h3>Import Schema from Sample</h3>
+        <div className="property-field">
+          <label>Sample file:</label>
+          <input type="file" accept=".csv,.txt,text/csv,text/plain" onChange={handleFileChange} />
+        </div>
+        <textarea
+          className="csv-sample-text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={'Paste CSV rows here, e.g.\nid,value,timestamp\n1,42,1700000000'}
+          rows={8}
+        />
+        <div className="csv-sample-options">
+          <div className="property-field">
+            <label>Header row:</label>
+            <select
+              value={options.header}
+              onChange={(e) => setOptions({ ...options, header: e.target.value as HeaderMode })}
+            >
+              <option value="auto">Detect</option>
+              <option value="yes">Yes</option>
+              <option value="no">No</option>
+            </select>
+          </div>
+          <div className="property-field">
+            <label>Field delimiter:</label>
+            <input
+              type="text"
+              value={escapeValue(options.fieldDelimiter)}
+              onChange={(e) => setOptions({ ...options, fieldDelimiter: unescapeValue(e.target.value) })}
+            />
+          </div>
+          <div className="property-field">
+            <label>Tuple delimiter:</label>
+            <input
+              type="text"
+              value={escapeValue(options.tupleDelimiter)}
+              onChange={(e) => setOptions({ ...options, tupleDelimiter: unescapeValue(e.target.value) })}
+            />
+          </div>
+        </div>
+
+        {inferred.fields.length > 0 ? (
+          <div className="schema-fields">
+            <div className="field-hint">
+              {inferred.hasHeader ? 'Field names from the header row' : 'No header row; fields are numbered'}
+              {`, types inferred from ${inferred.rowCount} row${inferred.rowCount === 1 ? '' : 's'}`}
+            </div>
+            <table>
+              <thead>
+                <tr>
+                  <th>Field Name</th>
+                  <th>Type</th>
+                </tr>
+              </thead>
+              <tbody>
+                {inferred.fields.map(field => (
+                  <tr key={field.name}>
+                    <td>{field.name}</td>
+                    <td>{field.type}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="empty-list">Paste or pick a sample to see the proposed fields</div>
+        )}
+
+        <div className="controls">
+          <button
+            onClick={() => onUse(inferred.fields, toIdentifier(fileName.replace(/\.[^.]*$/, '')))}
+            disabled={inferred.fields.length === 0}
+          >
+            Review Schema
+          </button>
+          <button onClick={onClose}>Cancel</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CsvSampleDialog;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { TopologyEdge } from '../utils/links';
+
+interface EdgeInspectorProps {
+  edge: TopologyEdge;
+  onReverse: () => void;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+// Small panel over the graph for the selected link
+const EdgeInspector: React.FC<EdgeInspectorProps> = ({ edge, onReverse, onDelete, onClose }) => {
+  const declaration =
+    edge.declaredDownstream && edge.declaredUpstream
+      ? 'Declared as downstream and upstream'
+      : edge.declaredDownstream
+      ? `Declared in downstreams of ${edge.source}`
+      : `Declared in upstreams of ${edge.target}`;
+
+  return (
+    <div className="edge-inspector" onClick={(e) => e.stopPropagation()}>
+      <div className="edge-inspector-header">
+        <span>Link</span>
+        <button className="close-button" onClick={onClose} title="Deselect">✕</button>
+      </div>
+      <div className="edge-inspector-endpoints">
+        {edge.source} → {edge.target}
+      </div>
+      <div className="edge-inspector-declared">{declaration}</div>
+      <div className="controls">
+        <button onClick={onReverse} title="Let data flow the other way">Reverse</button>
+        <button onClick={onDelete} title="Delete link (Delete)">Delete</button>
+      </div>
+    </div>
+  );
+};
+
+export default EdgeInspector;
@@ -0,0 +1,101 @@
+import React, { useEffect, useRef } from 'react';
+
+// What was right-clicked on the graph
+export type ContextMenuTarget =
+  | { type: 'main'; nodeId: string }
+  | { type: 'physical' | 'sink'; parentId: string; index: number; name: string }
+  | { type: 'edge'; source: string; target: string };
+
+export interface ContextMenuState {
+  target: ContextMenuTarget;
+  // Position relative to the graph container
+  x: number;
+  y: number;
+}
+
+export interface ContextMenuItem {
+  label: string;
+  onSelect?: () => void;
+  // Items shown when hovering this one
+  submenu?: ContextMenuItem[];
+  disabled?: boolean;
+  danger?: boolean;
+}
+
+interface GraphContextMenuProps {
+  menu: ContextMenuState;
+  title: string;
+  items: ContextMenuItem[];
+  onClose: () => void;
+}
+
+const MenuList: React.FC<{ items: ContextMenuItem[]; onClose: () => void; className: string }> = ({
+  items,
+  onClose,
+  className
+}) => (
+  <ul className={className}>
+    {items.map((item, index) => {
+      const hasSubmenu = item.submenu !== undefined;
+      const disabled = item.disabled || (hasSubmenu && item.submenu!.length === 0);
+
+      return (
+        <li
+          key={index}
+          className={`context-menu-item${hasSubmenu ? ' has-submenu' : ''}${disabled ? ' disabled' : ''}${
+            item.danger ? ' danger' : ''
+          }`}
+          onClick={(e) => {
+            e.stopPropagation();
+            if (disabled || !item.onSelect) return;
+            item.onSelect();
+            onClose();
+          }}
+        >
+          <span>{item.label}</span>
+          {hasSubmenu && <span className="submenu-arrow">▸</span>}
+          {hasSubmenu && !disabled && (
+            <MenuList items={item.submenu!} onClose={onClose} className="context-submenu" />
+          )}
+        </li>
+      );
+    })}
+  </ul>
+);
+
+// Menu for a right-clicked node, satellite or link; closes on outside click or Escape
+const GraphContextMenu: React.FC<GraphContextMenuProps> = ({ menu, title, items, onClose }) => {
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handlePointerDown = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        onClose();
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+
+    document.addEventListener('mousedown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose]);
+
+  return (
+    <div
+      ref={menuRef}
+      className="context-menu"
+      style={{ left: menu.x, top: menu.y }}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      <div className="context-menu-title">{title}</div>
+      <MenuList items={items} onClose={onClose} className="context-menu-list" />
+    </div>
+  );
+};
+
+export default GraphContextMenu;
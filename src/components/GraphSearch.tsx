@@ -0,0 +1,94 @@
+import React, { useEffect, useRef } from 'react';
+import { SearchMatch } from '../utils/search';
+
+interface GraphSearchProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  matches: SearchMatch[];
+  // Index of the match the view was last moved to, or -1
+  currentIndex: number;
+  onStep: (delta: number) => void;
+  // Whether everything that doesn't match is hidden rather than dimmed
+  filter: boolean;
+  onFilterChange: (filter: boolean) => void;
+}
+
+// Search box over the graph; Ctrl+F focuses it, Enter and Shift+Enter step through the matches
+const GraphSearch: React.FC<GraphSearchProps> = ({
+  query,
+  onQueryChange,
+  matches,
+  currentIndex,
+  onStep,
+  filter,
+  onFilterChange
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'f') {
+        event.preventDefault();
+        inputRef.current?.focus();
+        inputRef.current?.select();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const current = currentIndex >= 0 ? matches[currentIndex] : undefined;
+  const searching = query.trim() !== '';
+
+  return (
+    <div className="graph-search" onClick={(e) => e.stopPropagation()}>
+      <div className="graph-search-row">
+        <input
+          ref={inputRef}
+          type="search"
+          placeholder="Search nodes, sources, sinks (Ctrl+F)"
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              onStep(e.shiftKey ? -1 : 1);
+            } else if (e.key === 'Escape') {
+              onQueryChange('');
+              inputRef.current?.blur();
+            }
+          }}
+        />
+        {searching && (
+          <span className="graph-search-count">
+            {matches.length === 0
+              ? 'No matches'
+              : current
+              ? `${currentIndex + 1} of ${matches.length}`
+              : `${matches.length} ${matches.length === 1 ? 'match' : 'matches'}`}
+          </span>
+        )}
+        <button onClick={() => onStep(-1)} disabled={matches.length === 0} title="Previous match (Shift+Enter)">
+          ▲
+        </button>
+        <button onClick={() => onStep(1)} disabled={matches.length === 0} title="Next match (Enter)">
+          ▼
+        </button>
+        <button
+          className={filter ? 'active' : ''}
+          onClick={() => onFilterChange(!filter)}
+          title="Hide everything that doesn't match"
+        >
+          Filter
+        </button>
+      </div>
+      {current && (
+        <div className="graph-search-current">
+          {current.label} · {current.field}: {current.value}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GraphSearch;
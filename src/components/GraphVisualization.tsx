@@ -1,32 +1,656 @@
-import React, { useEffect, useRef, useState } from "react";
+import React, {
+  forwardRef,
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import * as d3 from "d3";
 import {
   Topology,
   SimulationNode,
   SimulationLink,
   NodeSelection,
+  NodePositions,
+  LayoutMode,
+  EdgeSelection,
 } from "../types";
+import { buildEdges, hasEdge } from "../utils/links";
+import { renameSatelliteId } from "../utils/rename";
+import {
+  computeLayeredLayout,
+  layoutStructureKey,
+} from "../utils/layeredLayout";
+import { searchTopology } from "../utils/search";
+import {
+  ExportedSvg,
+  ImageExportOptions,
+  LegendEntry,
+  serializeGraphSvg,
+} from "../utils/imageExport";
+import { formatUtilization, NodeUtilization } from "../utils/utilization";
+import { DataflowTrace, findNodesReachingSinks } from "../utils/dataflow";
+import { DiffStatuses } from "../utils/topologyDiff";
+import GraphContextMenu, {
+  ContextMenuItem,
+  ContextMenuState,
+} from "./GraphContextMenu";
+import GraphSearch from "./GraphSearch";
+
+// Operations offered in the graph's context menus
+export interface GraphContextActions {
+  addSource: (nodeId: string, logical: string) => void;
+  addSink: (nodeId: string) => void;
+  duplicateNode: (nodeId: string) => void;
+  deleteNode: (nodeId: string) => void;
+  duplicateSatellite: (
+    kind: "physical" | "sink",
+    parentId: string,
+    index: number
+  ) => void;
+  removeSatellite: (
+    kind: "physical" | "sink",
+    parentId: string,
+    index: number
+  ) => void;
+  reverseEdge: (source: string, target: string) => void;
+  deleteEdge: (source: string, target: string) => void;
+}
 
 interface GraphVisualizationProps {
   topology: Topology;
   onNodeSelect: (selection: NodeSelection) => void;
+  selectedEdge?: EdgeSelection;
+  onEdgeSelect?: (edge: EdgeSelection) => void;
+  // Called when the user draws a new link with Shift+drag or the context menu
+  onCreateLink?: (source: string, target: string) => void;
+  contextActions?: GraphContextActions;
+  // Main nodes shown as selected; Shift+click and Shift+dragging a rectangle
+  // over the background change the selection through onSelectNodes
+  selectedNodeIds?: string[];
+  onSelectNodes?: (ids: string[]) => void;
+  // Load of each main node, shown as a ring around it
+  utilization?: NodeUtilization[];
+  // Dataflow paths of the selected source or sink; everything else is dimmed
+  trace?: DataflowTrace | null;
+  // Differences to a compared topology, shown by colour
+  diff?: DiffStatuses | null;
+}
+
+// Imperative API for operations on the graph's internal layout state
+export interface GraphVisualizationHandle {
+  // Move saved positions of a node and its satellites to a new connection
+  renameNode: (from: string, to: string) => void;
+  // Read or replace the saved positions, e.g. for autosave and recovery
+  getNodePositions: () => NodePositions;
+  setNodePositions: (positions: NodePositions) => void;
+  // Serialize the current drawing as a standalone SVG image
+  exportSvg: (options: ImageExportOptions) => ExportedSvg;
+}
+
+// How a node is drawn; nodes are only re-rendered when this changes
+interface NodeAppearance {
+  label: string;
+  radius: number;
+  fill: string;
+  stroke: string;
+  strokeWidth: number;
+  title: string;
+  // Utilization ring of a main node: the filled fraction and its colour
+  ring: { fraction: number; color: string } | null;
+  overloaded: boolean;
 }
 
-interface NodePosition {
-  [id: string]: { x: number; y: number };
+// Lookups shared by all nodes of one render
+interface AppearanceContext {
+  schemaColorMap: Map<string, string>;
+  // Shade of a main node by its capacity, spread over the topology's range
+  capacityShade: d3.ScaleLinear<number, number>;
+  utilization: Map<string, NodeUtilization>;
+  // Main nodes whose data can reach a sink
+  reachesSink: Set<string>;
 }
 
-const GraphVisualization: React.FC<GraphVisualizationProps> = ({
-  topology,
-  onNodeSelect,
-}) => {
+// Use a predefined color palette for better visual distinction
+const colorPalette = [
+  "#1f77b4", // blue
+  "#ff7f0e", // orange
+  "#2ca02c", // green
+  "#d62728", // red
+  "#9467bd", // purple
+  "#8c564b", // brown
+  "#e377c2", // pink
+  "#7f7f7f", // gray
+  "#bcbd22", // olive
+  "#17becf", // teal
+  "#aec7e8", // light blue
+  "#ffbb78", // light orange
+  "#98df8a", // light green
+  "#ff9896", // light red
+  "#c5b0d5", // light purple
+  "#c49c94", // light brown
+  "#f7b6d2", // light pink
+  "#c7c7c7", // light gray
+  "#dbdb8d", // light olive
+  "#9edae5", // light teal
+];
+
+// Function to generate distinct colors for logical schemas
+const getLogicalSchemaColor = (schemaName: string) => {
+  // Define a better hash function to convert schema name to a deterministic color
+  const hash = (str: string) => {
+    // Use a more collision-resistant hash
+    let h1 = 1779033703,
+      h2 = 3144134277,
+      h3 = 1013904242,
+      h4 = 2773480762;
+    for (let i = 0, k; i < str.length; i++) {
+      k = str.charCodeAt(i);
+      h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+      h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+      h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+      h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
+    }
+    return [
+      (h1 ^ h2 ^ h3 ^ h4) >>> 0,
+      (h2 ^ h1) >>> 0,
+      (h3 ^ h1) >>> 0,
+      (h4 ^ h1) >>> 0,
+    ];
+  };
+
+  const hashValues = hash(schemaName);
+
+  // Generate HSL color components from different hash values
+  // This provides better distribution and more distinct colors
+  const h = hashValues[0] % 360; // Hue (0-359)
+  const s = 0.65 + (hashValues[1] % 20) / 100; // Saturation (0.65-0.85)
+  const l = 0.45 + (hashValues[2] % 15) / 100; // Lightness (0.45-0.60)
+
+  return d3.hsl(h, s, l).toString();
+};
+
+// Create a color map for all logical schemas for consistency
+const buildSchemaColorMap = (topology: Topology) => {
+  const schemaColorMap = new Map<string, string>();
+
+  // Sort schemas alphabetically to ensure consistent color assignment regardless of order
+  const sortedSchemas = [...(topology.logical || [])].sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+
+  // Assign colors to schemas
+  sortedSchemas.forEach((schema, index) => {
+    // Use palette colors first, then fall back to generated colors
+    const color =
+      index < colorPalette.length
+        ? colorPalette[index]
+        : getLogicalSchemaColor(schema.name);
+
+    schemaColorMap.set(schema.name, color);
+  });
+
+  return schemaColorMap;
+};
+
+// Legend entries for the schema colours, and for the warning pattern when a
+// source refers to a schema that does not exist
+const buildLegend = (topology: Topology): LegendEntry[] => {
+  const schemaColorMap = buildSchemaColorMap(topology);
+  const entries = Array.from(schemaColorMap, ([label, fill]) => ({
+    label,
+    fill,
+  }));
+  const missing = topology.nodes.some((node) =>
+    node.physical?.some(
+      (source) => source.logical && !schemaColorMap.has(source.logical)
+    )
+  );
+  if (missing) {
+    entries.push({ label: "Missing schema", fill: "url(#warning-pattern)" });
+  }
+  return entries;
+};
+
+const buildAppearanceContext = (
+  topology: Topology,
+  utilization: NodeUtilization[]
+): AppearanceContext => {
+  const [minCapacity = 1, maxCapacity = 1] = d3.extent(
+    topology.nodes,
+    (node) => node.capacity
+  );
+
+  return {
+    schemaColorMap: buildSchemaColorMap(topology),
+    capacityShade: d3
+      .scaleLinear()
+      .domain([minCapacity, maxCapacity])
+      .range([0.7, 1.3])
+      .clamp(true),
+    utilization: new Map(utilization.map((entry) => [entry.connection, entry])),
+    reachesSink: findNodesReachingSinks(topology),
+  };
+};
+
+// Green while there is room, orange when nearly full, red when overloaded
+const utilizationColor = (utilization: number) =>
+  utilization > 1 ? "#f44336" : utilization >= 0.75 ? "#FF9800" : "#4CAF50";
+
+// Default for graphs shown without utilization; stable so it doesn't re-run updates
+const NO_UTILIZATION: NodeUtilization[] = [];
+
+// Radii of the utilization ring around main nodes
+const RING_INNER_RADIUS = 32;
+const RING_OUTER_RADIUS = 36;
+
+// The logical schema of a physical source node if it does not exist
+const findMissingSchema = (
+  d: SimulationNode,
+  topology: Topology,
+  schemaColorMap: Map<string, string>
+): string | null => {
+  if (d.nodeType !== "physical" || d.parentIndex === undefined) return null;
+
+  const parentNode = topology.nodes.find((n) => n.connection === d.parentId);
+  const source = parentNode?.physical?.[d.parentIndex];
+  if (source && source.logical && !schemaColorMap.has(source.logical)) {
+    return source.logical;
+  }
+  return null;
+};
+
+const getNodeAppearance = (
+  d: SimulationNode,
+  topology: Topology,
+  { schemaColorMap, capacityShade, utilization, reachesSink }: AppearanceContext
+): NodeAppearance => {
+  if (d.nodeType === "physical") {
+    const missingSchema = findMissingSchema(d, topology, schemaColorMap);
+    // Data from a source whose node has no path to a sink is never output
+    const noSink = !reachesSink.has(d.parentId!);
+    const parentNode = topology.nodes.find((n) => n.connection === d.parentId);
+    const logical =
+      d.parentIndex !== undefined
+        ? parentNode?.physical?.[d.parentIndex]?.logical
+        : undefined;
+
+    return {
+      label: d.connection,
+      radius: 15,
+      // Use warning pattern for non-existent schema, otherwise the schema's color
+      fill: missingSchema
+        ? "url(#warning-pattern)"
+        : logical
+        ? schemaColorMap.get(logical) || getLogicalSchemaColor(logical)
+        : "#8BC34A", // Default green if no logical schema found
+      // Black, thicker border for a missing schema; red for no path to a sink
+      stroke: missingSchema ? "#000" : noSink ? "#f44336" : "#fff",
+      strokeWidth: missingSchema || noSink ? 2 : 1,
+      title: missingSchema
+        ? `Warning: Logical schema "${missingSchema}" does not exist`
+        : noSink
+        ? `Warning: data from ${d.connection} cannot reach any sink`
+        : d.connection,
+      ring: null,
+      overloaded: false,
+    };
+  }
+
+  if (d.nodeType === "sink") {
+    return {
+      label: d.connection,
+      radius: 15,
+      fill: "#FF9800", // Orange for sinks
+      stroke: "#fff",
+      strokeWidth: 1,
+      title: d.connection,
+      ring: null,
+      overloaded: false,
+    };
+  }
+
+  // For main nodes, color based on capacity
+  const baseColor = d3.rgb("#4285F4");
+  const load = utilization.get(d.id);
+
+  return {
+    label: d.connection,
+    radius: 30,
+    fill: baseColor.darker(capacityShade(d.capacity || 1)).toString(),
+    stroke: "#fff",
+    strokeWidth: 2,
+    title: load
+      ? `${d.connection}\nLoad ${load.load} of capacity ${load.capacity} (${formatUtilization(load.utilization)})`
+      : d.connection,
+    ring: load
+      ? {
+          fraction: Math.min(load.utilization, 1),
+          color: utilizationColor(load.utilization),
+        }
+      : null,
+    overloaded: load?.overloaded || false,
+  };
+};
+
+const ringArc = d3
+  .arc<number>()
+  .innerRadius(RING_INNER_RADIUS)
+  .outerRadius(RING_OUTER_RADIUS)
+  .startAngle(0)
+  .endAngle((fraction) => fraction * 2 * Math.PI);
+
+const endpointId = (end: string | SimulationNode) =>
+  typeof end === "string" ? end : end.id;
+
+const linkKey = (d: SimulationLink) =>
+  `${endpointId(d.source)}->${endpointId(d.target)}`;
+
+const isMainLink = (d: SimulationLink) =>
+  d.direction === "downstream" || d.direction === "upstream";
+
+// Straight line between the link's nodes
+const linkPath = (d: SimulationLink) => {
+  const sourceX = (d.source as SimulationNode).x || 0;
+  const sourceY = (d.source as SimulationNode).y || 0;
+  const targetX = (d.target as SimulationNode).x || 0;
+  const targetY = (d.target as SimulationNode).y || 0;
+
+  return `M${sourceX},${sourceY} L${targetX},${targetY}`;
+};
+
+// Distance within which a pointer counts as being over a main node
+const NODE_HIT_RADIUS = 35;
+
+// Margin around nodes zoomed to fit, and the closest such a zoom gets
+const FIT_PADDING = 80;
+const MAX_FIT_SCALE = 1.5;
+// Zoom limits, and the step of the toolbar's zoom buttons
+const MIN_SCALE = 0.1;
+const MAX_SCALE = 4;
+const ZOOM_STEP = 1.4;
+
+// Size of the minimap overlay, and the margin kept around the nodes in it
+const MINIMAP_WIDTH = 180;
+const MINIMAP_HEIGHT = 120;
+const MINIMAP_PADDING = 60;
+
+// Scale and offset that map graph coordinates into the minimap so all
+// nodes fit
+const minimapFrame = (nodes: SimulationNode[]) => {
+  const [minX = 0, maxX = 0] = d3.extent(nodes, (d) => d.x || 0);
+  const [minY = 0, maxY = 0] = d3.extent(nodes, (d) => d.y || 0);
+  const boundsWidth = maxX - minX + 2 * MINIMAP_PADDING;
+  const boundsHeight = maxY - minY + 2 * MINIMAP_PADDING;
+  const scale = Math.min(
+    MINIMAP_WIDTH / boundsWidth,
+    MINIMAP_HEIGHT / boundsHeight
+  );
+
+  return {
+    scale,
+    offsetX:
+      (MINIMAP_WIDTH - boundsWidth * scale) / 2 - (minX - MINIMAP_PADDING) * scale,
+    offsetY:
+      (MINIMAP_HEIGHT - boundsHeight * scale) / 2 -
+      (minY - MINIMAP_PADDING) * scale,
+  };
+};
+
+// Prepare the data for D3 - including main nodes, physical sources, and sinks.
+// Positions are filled in by the caller.
+const buildGraphData = (topology: Topology) => {
+  const nodes: SimulationNode[] = [];
+  const additionalLinks: SimulationLink[] = [];
+
+  topology.nodes.forEach((node) => {
+    // Add the main node
+    nodes.push({
+      id: node.connection,
+      connection: node.connection,
+      grpc: node.grpc,
+      capacity: node.capacity,
+      sinks: node.sinks,
+      links: node.links,
+      physical: node.physical,
+      nodeType: "main",
+    });
+
+    // Add physical source nodes with a link from physical to main
+    node.physical?.forEach((source, index) => {
+      const sourceId = `${node.connection}-physical-${index}`;
+      nodes.push({
+        id: sourceId,
+        connection: source.logical || `Source ${index + 1}`,
+        nodeType: "physical",
+        // Store parent info for selection
+        parentId: node.connection,
+        parentIndex: index,
+      });
+      additionalLinks.push({
+        source: sourceId,
+        target: node.connection,
+        direction: "physical",
+      });
+    });
+
+    // Add sink nodes with a link from main to sink.
+    // Important: Use actual array indices for sink nodes
+    node.sinks?.forEach((sink, index) => {
+      const sinkId = `${node.connection}-sink-${index}`;
+      nodes.push({
+        id: sinkId,
+        connection: sink.name || `Sink ${index + 1}`,
+        nodeType: "sink",
+        // Store parent info for selection - the INDEX is critical for lookup
+        parentId: node.connection,
+        parentIndex: index, // This must match the index in node.sinks array
+      });
+      additionalLinks.push({
+        source: node.connection,
+        target: sinkId,
+        direction: "sink",
+      });
+    });
+  });
+
+  // Generate links from the normalized edge model, which merges downstream
+  // and upstream declarations and skips links to unknown nodes
+  const mainLinks: SimulationLink[] = buildEdges(topology).map((edge) => ({
+    source: edge.source,
+    target: edge.target,
+    direction: edge.declaredDownstream ? "downstream" : "upstream",
+  }));
+
+  return { nodes, links: [...mainLinks, ...additionalLinks] };
+};
+
+// Initial position for a new satellite: sources in a semicircle above the
+// main node, sinks in a semicircle below it
+const satellitePosition = (
+  d: SimulationNode,
+  parent: SimulationNode | undefined,
+  count: number
+) => {
+  const index = d.parentIndex || 0;
+  const spread = (Math.PI / 2) * (index / (count > 1 ? count - 1 : 1));
+  // Angle based on index (from -45 to -135 degrees, or 45 to 135 for sinks)
+  const angle =
+    d.nodeType === "physical" ? -Math.PI / 4 - spread : Math.PI / 4 + spread;
+  const radius = 60; // Shorter fixed distance from main node
+
+  return {
+    x: (parent?.x || 0) + radius * Math.cos(angle),
+    y: (parent?.y || 0) + radius * Math.sin(angle),
+  };
+};
+
+const GraphVisualization = forwardRef<
+  GraphVisualizationHandle,
+  GraphVisualizationProps
+>((
+  {
+    topology,
+    onNodeSelect,
+    selectedEdge,
+    onEdgeSelect,
+    onCreateLink,
+    contextActions,
+    selectedNodeIds = [],
+    onSelectNodes,
+    utilization = NO_UTILIZATION,
+    trace = null,
+    diff = null,
+  },
+  ref
+) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const simulationRef = useRef<d3.Simulation<
     SimulationNode,
     SimulationLink
   > | null>(null);
-  const [nodePositions, setNodePositions] = useState<NodePosition>({});
+  // Simulation nodes and links by key; they are reused across updates so
+  // positions, velocities and DOM elements survive edits
+  const nodeCacheRef = useRef(new Map<string, SimulationNode>());
+  const linkCacheRef = useRef(new Map<string, SimulationLink>());
+  // Positions for nodes that are not in the graph yet: a loaded layout, or
+  // nodes that were removed and may come back through undo
+  const savedPositionsRef = useRef<NodePositions>({});
+  // Set when the saved positions were replaced and should override the cache
+  const positionsReplacedRef = useRef(false);
+  const [positionsVersion, setPositionsVersion] = useState(0);
+  const renderKeysRef = useRef(new Map<string, string>());
+  // Latest props for event handlers bound once when elements are created
+  const topologyRef = useRef(topology);
+  topologyRef.current = topology;
+  const utilizationRef = useRef(utilization);
+  utilizationRef.current = utilization;
+  const onNodeSelectRef = useRef(onNodeSelect);
+  onNodeSelectRef.current = onNodeSelect;
+  const onEdgeSelectRef = useRef(onEdgeSelect);
+  onEdgeSelectRef.current = onEdgeSelect;
+  const onCreateLinkRef = useRef(onCreateLink);
+  onCreateLinkRef.current = onCreateLink;
+  const selectedEdgeKey = selectedEdge
+    ? `${selectedEdge.source}->${selectedEdge.target}`
+    : null;
+  const selectedEdgeKeyRef = useRef(selectedEdgeKey);
+  selectedEdgeKeyRef.current = selectedEdgeKey;
+  const selectedNodeIdsRef = useRef(selectedNodeIds);
+  selectedNodeIdsRef.current = selectedNodeIds;
+  const onSelectNodesRef = useRef(onSelectNodes);
+  onSelectNodesRef.current = onSelectNodes;
+  // Other selected nodes that move along with the node being dragged
+  const dragGroupRef = useRef<SimulationNode[]>([]);
+  // The node a Shift+drag link starts from, while one is being drawn
+  const linkSourceRef = useRef<SimulationNode | null>(null);
+  const [layoutMode, setLayoutMode] = useState<LayoutMode>("force");
+  const layoutModeRef = useRef(layoutMode);
+  layoutModeRef.current = layoutMode;
+  // Bumped to run the current layout again
+  const [layoutRevision, setLayoutRevision] = useState(0);
+  // Structure the layered layout was last computed for; edits that keep the
+  // structure (e.g. capacity changes) keep the layered positions
+  const layeredKeyRef = useRef<string | null>(null);
+  // Set when the force simulation should run even though nothing was added
+  const reheatRef = useRef(false);
+  // Current link and node elements, and a function that moves them to their
+  // nodes' positions
+  const linkSelectionRef = useRef<d3.Selection<
+    SVGPathElement,
+    SimulationLink,
+    SVGGElement,
+    unknown
+  > | null>(null);
+  // Wide transparent paths over main links that make them easy to click
+  const linkHitSelectionRef = useRef<d3.Selection<
+    SVGPathElement,
+    SimulationLink,
+    SVGGElement,
+    unknown
+  > | null>(null);
+  const nodeSelectionRef = useRef<d3.Selection<
+    SVGGElement,
+    SimulationNode,
+    SVGGElement,
+    unknown
+  > | null>(null);
+  const tickedRef = useRef<() => void>(() => undefined);
+  const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
+  const minimapRef = useRef<SVGSVGElement>(null);
+  const [contextMenu, setContextMenu] = useState<ContextMenuState | null>(
+    null
+  );
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchFilter, setSearchFilter] = useState(false);
+  // The match the view was last moved to; -1 until the user steps
+  const [searchIndex, setSearchIndex] = useState(-1);
+  const searchMatches = useMemo(
+    () => searchTopology(topology, searchQuery),
+    [topology, searchQuery]
+  );
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      renameNode(from: string, to: string) {
+        const renamed = new Map<string, SimulationNode>();
+        nodeCacheRef.current.forEach((d, id) => {
+          d.id = renameSatelliteId(id, from, to);
+          if (d.parentId === from) d.parentId = to;
+          renamed.set(d.id, d);
+        });
+        nodeCacheRef.current = renamed;
+
+        // Links refer to the node objects, so only their keys change
+        linkCacheRef.current = new Map(
+          Array.from(linkCacheRef.current.values()).map((d) => [
+            linkKey(d),
+            d,
+          ])
+        );
+
+        const saved: NodePositions = {};
+        Object.entries(savedPositionsRef.current).forEach(([id, position]) => {
+          saved[renameSatelliteId(id, from, to)] = position;
+        });
+        savedPositionsRef.current = saved;
+
+        renderKeysRef.current.clear();
+      },
+      getNodePositions() {
+        if (!nodeCacheRef.current.size) {
+          return savedPositionsRef.current;
+        }
+        const positions: NodePositions = {};
+        nodeCacheRef.current.forEach((d, id) => {
+          if (d.x != null && d.y != null) {
+            positions[id] = { x: d.x, y: d.y };
+          }
+        });
+        return positions;
+      },
+      setNodePositions(positions: NodePositions) {
+        savedPositionsRef.current = positions;
+        positionsReplacedRef.current = true;
+        setPositionsVersion((version) => version + 1);
+      },
+      exportSvg(options: ImageExportOptions) {
+        if (!svgRef.current) {
+          throw new Error("The graph has not been drawn yet");
+        }
+        return serializeGraphSvg(
+          svgRef.current,
+          options,
+          buildLegend(topologyRef.current)
+        );
+      },
+    }),
+    []
+  );
 
   // Handle container resizing
   useEffect(() => {
@@ -48,206 +672,127 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({
     };
   }, []);
 
+  // Create the SVG scaffolding, zoom behaviour and simulation once
   useEffect(() => {
-    if (!svgRef.current || !topology.nodes.length) return;
-
-    // Clear any existing visualization
-    d3.select(svgRef.current).selectAll("*").remove();
+    if (!svgRef.current) return;
 
     const width = svgRef.current.clientWidth;
     const height = svgRef.current.clientHeight;
 
-    // Create SVG element
-    const svg = d3
-      .select(svgRef.current)
-      .attr("width", width)
-      .attr("height", height);
+    const svg = d3.select(svgRef.current);
 
-    // Create container for zoom/pan
-    const g = svg.append("g");
+    // Create container for zoom/pan, keeping any zoom from before a remount
+    const g = svg
+      .append("g")
+      .attr("class", "graph-content")
+      .attr("transform", d3.zoomTransform(svgRef.current).toString());
 
-    // Add zoom behavior
+    // Add zoom behavior; the transform persists across topology updates
     const zoom = d3
       .zoom<SVGSVGElement, unknown>()
-      .scaleExtent([0.1, 4])
+      .scaleExtent([MIN_SCALE, MAX_SCALE])
+      // Shift+drag on the background selects nodes instead of panning
+      .filter(
+        (event) =>
+          (!event.ctrlKey || event.type === "wheel") &&
+          !event.button &&
+          !(event.shiftKey && event.type === "mousedown")
+      )
       .on("zoom", (event) => {
         g.attr("transform", event.transform);
+        updateMinimap();
       });
 
     svg.call(zoom);
+    zoomRef.current = zoom;
 
-    // Prepare the data for D3 - including main nodes, physical sources, and sinks
-    let nodes: SimulationNode[] = [];
-    let additionalLinks: SimulationLink[] = [];
-
-    // Add main nodes
-    topology.nodes.forEach((node) => {
-      // Get existing position if available
-      const existingPos = nodePositions[node.connection];
-
-      // Add the main node without fixed position
-      nodes.push({
-        id: node.connection,
-        connection: node.connection,
-        grpc: node.grpc,
-        capacity: node.capacity,
-        sinks: node.sinks,
-        links: node.links,
-        physical: node.physical,
-        nodeType: "main",
-        // Don't preserve position, let the simulation position nodes
-        x: existingPos?.x,
-        y: existingPos?.y,
-      } as SimulationNode);
-
-      // Add physical source nodes
-      if (node.physical && node.physical.length > 0) {
-        const mainPos = nodePositions[node.connection] || { x: 0, y: 0 };
-        const numPhysical = node.physical.length;
-
-        node.physical.forEach((source, index) => {
-          const sourceId = `${node.connection}-physical-${index}`;
-          const existingPos = nodePositions[sourceId];
-
-          // Calculate fixed position relative to main node if no existing position
-          // Place sources in a semicircle above the main node
-          let px, py;
-          if (existingPos) {
-            px = existingPos.x;
-            py = existingPos.y;
-          } else {
-            // Angle based on index (from -45 to -135 degrees in a semicircle)
-            const angle =
-              -Math.PI / 4 -
-              (Math.PI / 2) * (index / (numPhysical > 1 ? numPhysical - 1 : 1));
-            const radius = 60; // Shorter fixed distance from main node
-            px = mainPos.x + radius * Math.cos(angle);
-            py = mainPos.y + radius * Math.sin(angle);
-          }
-
-          // Add physical source node with dynamic position
-          nodes.push({
-            id: sourceId,
-            connection: source.logical || `Source ${index + 1}`,
-            nodeType: "physical",
-            // Initial position but not fixed
-            x: px,
-            y: py,
-            // Store parent info for selection
-            parentId: node.connection,
-            parentIndex: index,
-          } as SimulationNode);
-
-          // Add link from physical to main
-          additionalLinks.push({
-            source: sourceId,
-            target: node.connection,
-            direction: "physical",
-          });
-        });
-      }
-
-      // Add sink nodes
-      if (node.sinks && node.sinks.length > 0) {
-        const mainPos = nodePositions[node.connection] || { x: 0, y: 0 };
-        const numSinks = node.sinks.length;
+    // Add arrow markers for directed edges
+    const defs = svg.append("defs");
 
-        // Important: Use actual array indices for sink nodes
-        node.sinks.forEach((sink, index) => {
-          console.log(
-            `Creating sink node for ${node.connection} at index ${index}:`,
-            sink
-          );
-          const sinkId = `${node.connection}-sink-${index}`;
-          const existingPos = nodePositions[sinkId];
-
-          // Calculate fixed position relative to main node if no existing position
-          // Place sinks in a semicircle below the main node
-          let sx, sy;
-          if (existingPos) {
-            sx = existingPos.x;
-            sy = existingPos.y;
-          } else {
-            // Angle based on index (from 45 to 135 degrees in a semicircle)
-            const angle =
-              Math.PI / 4 +
-              (Math.PI / 2) * (index / (numSinks > 1 ? numSinks - 1 : 1));
-            const radius = 60; // Shorter fixed distance from main node
-            sx = mainPos.x + radius * Math.cos(angle);
-            sy = mainPos.y + radius * Math.sin(angle);
-          }
+    // Main connection arrow (used for both downstream and upstream)
+    defs
+      .append("marker")
+      .attr("id", "arrowhead-main")
+      .attr("viewBox", "0 -6 12 12")
+      .attr("refX", 25) // Position the arrow near the target node
+      .attr("refY", 0)
+      .attr("orient", "auto")
+      .attr("markerWidth", 10)
+      .attr("markerHeight", 10)
+      .append("path")
+      .attr("d", "M0,-6L12,0L0,6")
+      .attr("fill", "#4f8fff");
 
-          // Add sink node with dynamic position
-          nodes.push({
-            id: sinkId,
-            connection: sink.name || `Sink ${index + 1}`,
-            nodeType: "sink",
-            // Initial position but not fixed
-            x: sx,
-            y: sy,
-            // Store parent info for selection - the INDEX is critical for lookup
-            parentId: node.connection,
-            parentIndex: index, // This must match the index in node.sinks array
-          } as SimulationNode);
-
-          // Add link from main to sink
-          additionalLinks.push({
-            source: node.connection,
-            target: sinkId,
-            direction: "sink",
-          });
-        });
-      }
-    });
+    // Physical arrow
+    defs
+      .append("marker")
+      .attr("id", "arrowhead-physical")
+      .attr("viewBox", "0 -5 10 10")
+      .attr("refX", 18)
+      .attr("refY", 0)
+      .attr("orient", "auto")
+      .attr("markerWidth", 8)
+      .attr("markerHeight", 8)
+      .append("path")
+      .attr("d", "M0,-5L10,0L0,5")
+      .attr("fill", "#8BC34A");
 
-    // Generate links from nodes' downstream and upstream relationships
-    const mainLinks: SimulationLink[] = [];
-
-    // Process downstream links
-    topology.nodes.forEach((node) => {
-      if (node.links?.downstreams) {
-        node.links.downstreams.forEach((targetId) => {
-          mainLinks.push({
-            source: node.connection,
-            target: targetId,
-            direction: "downstream",
-          });
-        });
-      }
-    });
+    // Sink arrow
+    defs
+      .append("marker")
+      .attr("id", "arrowhead-sink")
+      .attr("viewBox", "0 -5 10 10")
+      .attr("refX", 18)
+      .attr("refY", 0)
+      .attr("orient", "auto")
+      .attr("markerWidth", 8)
+      .attr("markerHeight", 8)
+      .append("path")
+      .attr("d", "M0,-5L10,0L0,5")
+      .attr("fill", "#FF9800");
 
-    // Process upstream links (if any)
-    topology.nodes.forEach((node) => {
-      if (node.links?.upstreams) {
-        node.links.upstreams.forEach((sourceId) => {
-          // Check if we already have this link from downstream relationships
-          const existingLink = mainLinks.find(
-            (link) =>
-              link.source === sourceId && link.target === node.connection
-          );
+    // Add background warning pattern for invalid schemas
+    const warningPattern = defs
+      .append("pattern")
+      .attr("id", "warning-pattern")
+      .attr("patternUnits", "userSpaceOnUse")
+      .attr("width", 10)
+      .attr("height", 10)
+      .attr("patternTransform", "rotate(45)");
 
-          // Only add if not already added
-          if (!existingLink) {
-            mainLinks.push({
-              source: sourceId,
-              target: node.connection,
-              direction: "upstream",
-            });
-          }
-        });
-      }
-    });
+    // Add yellow stripes to the pattern
+    warningPattern
+      .append("rect")
+      .attr("width", 5)
+      .attr("height", 10)
+      .attr("transform", "translate(0,0)")
+      .attr("fill", "#FFD700"); // Gold/yellow color
 
-    // Combine all links
-    const links = [...mainLinks, ...additionalLinks];
+    // Add black background to the pattern
+    warningPattern
+      .append("rect")
+      .attr("width", 5)
+      .attr("height", 10)
+      .attr("transform", "translate(5,0)")
+      .attr("fill", "#000000"); // Black
 
-    // Create the force simulation
+    // Links are drawn below nodes
+    g.append("g").attr("class", "links");
+    g.append("g").attr("class", "link-hits");
+    // Rubber band shown while drawing a new link
+    g.append("path")
+      .attr("class", "link-preview")
+      .attr("marker-end", "url(#arrowhead-main)")
+      .style("display", "none");
+    g.append("g").attr("class", "nodes");
+
+    // Create the force simulation; nodes and links are set on each update
     const simulation = d3
-      .forceSimulation<SimulationNode>(nodes)
+      .forceSimulation<SimulationNode>([])
       .force(
         "link",
         d3
-          .forceLink<SimulationNode, SimulationLink>(links)
+          .forceLink<SimulationNode, SimulationLink>([])
           .id((d) => d.id)
           .distance((d) => {
             // Control distance based on link types
@@ -286,376 +831,562 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({
         })
       )
       .force("center", d3.forceCenter(width / 2, height / 2))
-      .alpha(0.5) // Higher alpha for more dynamic movement
+      .alpha(0)
       .alphaDecay(0.02) // Slower cooling for longer-lasting movement
       .on("tick", ticked);
 
     // Store the simulation reference for later use
     simulationRef.current = simulation;
+    tickedRef.current = ticked;
+
+    // The minimap shows every node and the visible part of the graph;
+    // pressing or dragging on it moves the view there
+    const minimap = d3.select(minimapRef.current!);
+    minimap.append("g").attr("class", "minimap-links");
+    minimap.append("g").attr("class", "minimap-nodes");
+    minimap.append("rect").attr("class", "minimap-viewport");
+    let minimapFrameState = minimapFrame([]);
+    let minimapFrameRequest: number | null = null;
+
+    function drawMinimap() {
+      minimapFrameRequest = null;
+      const nodes = Array.from(nodeCacheRef.current.values());
+      minimapFrameState = minimapFrame(nodes);
+      const { scale, offsetX, offsetY } = minimapFrameState;
+      const mapX = (x: number | undefined) => (x || 0) * scale + offsetX;
+      const mapY = (y: number | undefined) => (y || 0) * scale + offsetY;
+
+      minimap
+        .select("g.minimap-links")
+        .selectAll<SVGLineElement, SimulationLink>("line")
+        .data(Array.from(linkCacheRef.current.values()))
+        .join("line")
+        .attr("class", (d) => `minimap-link ${d.direction}`)
+        .attr("x1", (d) => mapX((d.source as SimulationNode).x))
+        .attr("y1", (d) => mapY((d.source as SimulationNode).y))
+        .attr("x2", (d) => mapX((d.target as SimulationNode).x))
+        .attr("y2", (d) => mapY((d.target as SimulationNode).y));
+
+      minimap
+        .select("g.minimap-nodes")
+        .selectAll<SVGCircleElement, SimulationNode>("circle")
+        .data(nodes)
+        .join("circle")
+        .attr("class", (d) => `minimap-node ${d.nodeType}`)
+        .attr("r", (d) => (d.nodeType === "main" ? 3.5 : 1.5))
+        .attr("cx", (d) => mapX(d.x))
+        .attr("cy", (d) => mapY(d.y));
+
+      const transform = d3.zoomTransform(svgRef.current!);
+      const [left, top] = transform.invert([0, 0]);
+      const [right, bottom] = transform.invert([
+        svgRef.current!.clientWidth,
+        svgRef.current!.clientHeight,
+      ]);
+      minimap
+        .select(".minimap-viewport")
+        .attr("x", mapX(left))
+        .attr("y", mapY(top))
+        .attr("width", (right - left) * scale)
+        .attr("height", (bottom - top) * scale);
+    }
 
-    // Create the links
-    const link = g
-      .append("g")
-      .attr("class", "links")
-      .selectAll("path")
-      .data(links)
-      .enter()
-      .append("path")
-      .attr("class", (d) => `link ${d.direction}`)
-      .attr("stroke-width", (d) => {
-        // Make main connection links thicker
-        if (d.direction === "downstream" || d.direction === "upstream")
-          return 2;
-        return 1.5; // Thinner for physical/sink links
-      })
-      .attr("marker-end", (d) => {
-        // Use different arrowheads for different link types
-        if (d.direction === "downstream" || d.direction === "upstream")
-          return "url(#arrowhead-main)";
-        if (d.direction === "physical") return "url(#arrowhead-physical)";
-        if (d.direction === "sink") return "url(#arrowhead-sink)";
-        return "url(#arrowhead-main)";
-      });
-
-    // Add arrow markers for directed edges
-    const defs = svg.append("defs");
-
-    // Main connection arrow (used for both downstream and upstream)
-    defs
-      .append("marker")
-      .attr("id", "arrowhead-main")
-      .attr("viewBox", "0 -6 12 12")
-      .attr("refX", (d) => 25) // Position the arrow near the target node
-      .attr("refY", 0)
-      .attr("orient", "auto")
-      .attr("markerWidth", 10)
-      .attr("markerHeight", 10)
-      .append("path")
-      .attr("d", "M0,-6L12,0L0,6")
-      .attr("fill", "#4f8fff");
+    // Redraw at most once per frame, however often the graph moves
+    function updateMinimap() {
+      if (minimapFrameRequest === null) {
+        minimapFrameRequest = requestAnimationFrame(drawMinimap);
+      }
+    }
 
-    // Physical arrow
-    defs
-      .append("marker")
-      .attr("id", "arrowhead-physical")
-      .attr("viewBox", "0 -5 10 10")
-      .attr("refX", (d) => 18)
-      .attr("refY", 0)
-      .attr("orient", "auto")
-      .attr("markerWidth", 8)
-      .attr("markerHeight", 8)
-      .append("path")
-      .attr("d", "M0,-5L10,0L0,5")
-      .attr("fill", "#8BC34A");
+    minimap.call(
+      d3
+        .drag<SVGSVGElement, unknown>()
+        .container(minimapRef.current!)
+        .on("start drag", (event) => {
+          const { scale, offsetX, offsetY } = minimapFrameState;
+          svg.call(
+            zoom.translateTo,
+            (event.x - offsetX) / scale,
+            (event.y - offsetY) / scale
+          );
+        })
+    );
 
-    // Sink arrow
-    defs
-      .append("marker")
-      .attr("id", "arrowhead-sink")
-      .attr("viewBox", "0 -5 10 10")
-      .attr("refX", (d) => 18)
-      .attr("refY", 0)
-      .attr("orient", "auto")
-      .attr("markerWidth", 8)
-      .attr("markerHeight", 8)
-      .append("path")
-      .attr("d", "M0,-5L10,0L0,5")
-      .attr("fill", "#FF9800");
+    // Clear node selection when clicking on empty space; Shift keeps it, as
+    // the click also ends a selection rectangle
+    svg.on("click", function (event: MouseEvent) {
+      if (event.shiftKey) return;
+      onNodeSelectRef.current(null);
+    });
 
-    // Function to generate distinct colors for logical schemas
-    const getLogicalSchemaColor = (schemaName: string) => {
-      // Define a better hash function to convert schema name to a deterministic color
-      const hash = (str: string) => {
-        // Use a more collision-resistant hash
-        let h1 = 1779033703,
-          h2 = 3144134277,
-          h3 = 1013904242,
-          h4 = 2773480762;
-        for (let i = 0, k; i < str.length; i++) {
-          k = str.charCodeAt(i);
-          h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
-          h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
-          h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
-          h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
-        }
-        return [
-          (h1 ^ h2 ^ h3 ^ h4) >>> 0,
-          (h2 ^ h1) >>> 0,
-          (h3 ^ h1) >>> 0,
-          (h4 ^ h1) >>> 0,
-        ];
+    // Shift+drag on the background draws a rectangle that adds the main
+    // nodes inside it to the selection
+    svg.on("mousedown.select", function (event: MouseEvent) {
+      if (
+        !event.shiftKey ||
+        event.button !== 0 ||
+        event.target !== this ||
+        !onSelectNodesRef.current
+      )
+        return;
+      event.preventDefault();
+
+      const content = g.node()!;
+      const [startX, startY] = d3.pointer(event, content);
+      const band = g
+        .append("rect")
+        .attr("class", "selection-band")
+        .attr("x", startX)
+        .attr("y", startY);
+      const bounds = (moveEvent: MouseEvent) => {
+        const [x, y] = d3.pointer(moveEvent, content);
+        return {
+          x: Math.min(startX, x),
+          y: Math.min(startY, y),
+          width: Math.abs(x - startX),
+          height: Math.abs(y - startY),
+        };
       };
 
-      const hashValues = hash(schemaName);
-
-      // Generate HSL color components from different hash values
-      // This provides better distribution and more distinct colors
-      const h = hashValues[0] % 360; // Hue (0-359)
-      const s = 0.65 + (hashValues[1] % 20) / 100; // Saturation (0.65-0.85)
-      const l = 0.45 + (hashValues[2] % 15) / 100; // Lightness (0.45-0.60)
+      d3.select(window)
+        .on("mousemove.select", (moveEvent: MouseEvent) => {
+          const { x, y, width, height } = bounds(moveEvent);
+          band
+            .attr("x", x)
+            .attr("y", y)
+            .attr("width", width)
+            .attr("height", height);
+        })
+        .on("mouseup.select", (upEvent: MouseEvent) => {
+          d3.select(window).on(".select", null);
+          band.remove();
+
+          const { x, y, width, height } = bounds(upEvent);
+          const inside: string[] = [];
+          nodeCacheRef.current.forEach((d) => {
+            const nodeX = d.x || 0;
+            const nodeY = d.y || 0;
+            if (
+              d.nodeType === "main" &&
+              nodeX >= x &&
+              nodeX <= x + width &&
+              nodeY >= y &&
+              nodeY <= y + height
+            ) {
+              inside.push(d.id);
+            }
+          });
 
-      return d3.hsl(h, s, l).toString();
-    };
+          const current = selectedNodeIdsRef.current;
+          onSelectNodesRef.current?.([
+            ...current,
+            ...inside.filter((id) => !current.includes(id)),
+          ]);
+        });
+    });
 
-    // Use a predefined color palette for better visual distinction
-    const colorPalette = [
-      "#1f77b4", // blue
-      "#ff7f0e", // orange
-      "#2ca02c", // green
-      "#d62728", // red
-      "#9467bd", // purple
-      "#8c564b", // brown
-      "#e377c2", // pink
-      "#7f7f7f", // gray
-      "#bcbd22", // olive
-      "#17becf", // teal
-      "#aec7e8", // light blue
-      "#ffbb78", // light orange
-      "#98df8a", // light green
-      "#ff9896", // light red
-      "#c5b0d5", // light purple
-      "#c49c94", // light brown
-      "#f7b6d2", // light pink
-      "#c7c7c7", // light gray
-      "#dbdb8d", // light olive
-      "#9edae5", // light teal
-    ];
+    // Right-clicking empty space closes the graph's context menu
+    svg.on("contextmenu", function () {
+      setContextMenu(null);
+    });
 
-    // Create a color map for all logical schemas for consistency
-    const schemaColorMap = new Map<string, string>();
-    // Track which logical schemas actually exist
-    const existingSchemas = new Set<string>();
+    // Update positions on each tick of the simulation
+    function ticked() {
+      // Update links with arrows - all straight lines
+      linkSelectionRef.current?.attr("d", linkPath);
+      linkHitSelectionRef.current?.attr("d", linkPath);
 
-    if (topology.logical) {
-      // Sort schemas alphabetically to ensure consistent color assignment regardless of order
-      const sortedSchemas = [...topology.logical].sort((a, b) =>
-        a.name.localeCompare(b.name)
+      nodeSelectionRef.current?.attr(
+        "transform",
+        (d) => `translate(${d.x || 0},${d.y || 0})`
       );
-
-      // Assign colors to schemas
-      sortedSchemas.forEach((schema, index) => {
-        // Use palette colors first, then fall back to generated colors
-        const color =
-          index < colorPalette.length
-            ? colorPalette[index]
-            : getLogicalSchemaColor(schema.name);
-
-        schemaColorMap.set(schema.name, color);
-        existingSchemas.add(schema.name);
-      });
+      updateMinimap();
     }
 
-    // Function to check if a logical schema exists
-    const logicalSchemaExists = (name: string): boolean => {
-      return existingSchemas.has(name);
+    // Cleanup
+    return () => {
+      simulation.stop();
+      svg
+        .on(".zoom", null)
+        .on("click", null)
+        .on("contextmenu", null)
+        .on("mousedown.select", null);
+      d3.select(window).on(".select", null);
+      if (minimapFrameRequest !== null) cancelAnimationFrame(minimapFrameRequest);
+      minimap.on(".drag", null);
+      minimap.selectAll("*").remove();
+      svg.selectAll("*").remove();
+
+      // The elements are gone, so the next update starts over from the
+      // current positions
+      const positions: NodePositions = {};
+      nodeCacheRef.current.forEach((d, id) => {
+        if (d.x != null && d.y != null) positions[id] = { x: d.x, y: d.y };
+      });
+      savedPositionsRef.current = {
+        ...savedPositionsRef.current,
+        ...positions,
+      };
+      positionsReplacedRef.current = true;
+      linkCacheRef.current = new Map();
+      renderKeysRef.current.clear();
+      linkSelectionRef.current = null;
+      linkHitSelectionRef.current = null;
+      nodeSelectionRef.current = null;
     };
+  }, []);
 
-    // Create the nodes
-    const node = g
-      .append("g")
-      .attr("class", "nodes")
-      .selectAll("g")
-      .data(nodes)
-      .enter()
-      .append("g")
-      .attr("class", "node")
-      .call(
-        d3
-          .drag<SVGGElement, SimulationNode>()
-          .on("start", dragstarted)
-          .on("drag", dragged)
-          .on("end", dragended)
-      );
+  // Apply topology changes with keyed joins, touching only what changed
+  useEffect(() => {
+    const simulation = simulationRef.current;
+    if (!svgRef.current || !simulation) return;
 
-    // Add background warning pattern for invalid schemas
-    const warningPattern = defs
-      .append("pattern")
-      .attr("id", "warning-pattern")
-      .attr("patternUnits", "userSpaceOnUse")
-      .attr("width", 10)
-      .attr("height", 10)
-      .attr("patternTransform", "rotate(45)");
+    const width = svgRef.current.clientWidth;
+    const height = svgRef.current.clientHeight;
+    const svg = d3.select(svgRef.current);
+    const layered = layoutMode === "layered";
+
+    const reheat = reheatRef.current;
+    reheatRef.current = false;
+    const positionsReplaced = positionsReplacedRef.current;
+    positionsReplacedRef.current = false;
+    if (positionsReplaced) {
+      nodeCacheRef.current = new Map();
+    }
 
-    // Add yellow stripes to the pattern
-    warningPattern
-      .append("rect")
-      .attr("width", 5)
-      .attr("height", 10)
-      .attr("transform", "translate(0,0)")
-      .attr("fill", "#FFD700"); // Gold/yellow color
+    // Reuse existing simulation nodes so they keep their positions
+    const { nodes: freshNodes, links: freshLinks } = buildGraphData(topology);
+    const previousNodes = nodeCacheRef.current;
+    const nodeCache = new Map<string, SimulationNode>();
+    let needsLayout = false;
+
+    const nodes = freshNodes.map((fresh) => {
+      const existing = previousNodes.get(fresh.id);
+      if (existing) {
+        // Take the new data but keep position, velocity and pinning
+        const { x, y, vx, vy, fx, fy, index } = existing;
+        Object.keys(existing).forEach(
+          (key) => delete (existing as unknown as Record<string, unknown>)[key]
+        );
+        Object.assign(existing, fresh, { x, y, vx, vy, fx, fy, index });
+        nodeCache.set(fresh.id, existing);
+        return existing;
+      }
 
-    // Add black background to the pattern
-    warningPattern
-      .append("rect")
-      .attr("width", 5)
-      .attr("height", 10)
-      .attr("transform", "translate(5,0)")
-      .attr("fill", "#000000"); // Black
+      const saved = savedPositionsRef.current[fresh.id];
+      if (saved) {
+        fresh.x = saved.x;
+        fresh.y = saved.y;
+      } else if (fresh.nodeType !== "main") {
+        const parent = nodeCache.get(fresh.parentId!);
+        const count =
+          fresh.nodeType === "physical"
+            ? parent?.physical?.length || 1
+            : parent?.sinks?.length || 1;
+        Object.assign(fresh, satellitePosition(fresh, parent, count));
+        needsLayout = true;
+      } else {
+        // Let the simulation position new main nodes
+        needsLayout = true;
+      }
+      nodeCache.set(fresh.id, fresh);
+      return fresh;
+    });
 
-    // Add drop target indicators to main nodes
-    node
-      .filter((d) => d.nodeType === "main")
-      .append("circle")
-      .attr("class", "drop-target")
-      .attr("r", 35) // Slightly larger than the main node circle
-      .attr("fill", "rgba(255, 255, 255, 0.1)")
-      .attr("stroke", "rgba(255, 255, 255, 0.4)")
-      .attr("stroke-width", 2)
-      .attr("stroke-dasharray", "4 2")
-      .style("opacity", 0) // Hidden by default, will be shown during dragging
-      .style("pointer-events", "none"); // Don't interfere with mouse events
-
-    // Add circles to nodes with different sizes and colors based on type and capacity
-    node
-      .append("circle")
-      .attr("class", "node-circle")
-      .attr("r", (d) => {
-        // Size based on node type
-        if (d.nodeType === "main") return 30;
-        if (d.nodeType === "physical") return 15;
-        if (d.nodeType === "sink") return 15;
-        return 20; // Default
-      })
-      .attr("fill", (d) => {
-        // For physical sources, color based on logical schema
-        if (d.nodeType === "physical") {
-          // Get parent node to find the right physical source
-          const parentNode = topology.nodes.find(
-            (n) => n.connection === d.parentId
-          );
-          if (
-            parentNode &&
-            parentNode.physical &&
-            d.parentIndex !== undefined
-          ) {
-            const source = parentNode.physical[d.parentIndex];
-            if (source && source.logical) {
-              // Check if this logical schema actually exists
-              if (!logicalSchemaExists(source.logical)) {
-                return "url(#warning-pattern)"; // Use warning pattern for non-existent schema
-              }
-
-              // Use the color from the schema map if available
-              if (schemaColorMap.has(source.logical)) {
-                return schemaColorMap.get(source.logical)!;
-              }
-              // Fallback to generating a color on the fly
-              return getLogicalSchemaColor(source.logical);
-            }
-          }
-          return "#8BC34A"; // Default green if no logical schema found
+    // Remember where removed nodes were, so undo puts them back in place
+    let nodesRemoved = false;
+    previousNodes.forEach((d, id) => {
+      if (!nodeCache.has(id)) {
+        nodesRemoved = true;
+        if (d.x != null && d.y != null) {
+          savedPositionsRef.current = {
+            ...savedPositionsRef.current,
+            [id]: { x: d.x, y: d.y },
+          };
         }
+        renderKeysRef.current.delete(id);
+      }
+    });
+    const nodesAdded = nodes.some((d) => !previousNodes.has(d.id));
+    nodeCacheRef.current = nodeCache;
+
+    // Reuse links by key; only their declared direction can change
+    const previousLinks = linkCacheRef.current;
+    const linkCache = new Map<string, SimulationLink>();
+    const touchedLinks = new Set<string>();
+    const links = freshLinks.map((fresh) => {
+      const key = linkKey(fresh);
+      const existing = previousLinks.get(key);
+      // Links still pointing at replaced node objects are recreated
+      const current =
+        existing &&
+        nodeCache.get(endpointId(existing.source)) === existing.source &&
+        nodeCache.get(endpointId(existing.target)) === existing.target;
+      if (existing && current) {
+        if (existing.direction !== fresh.direction) {
+          existing.direction = fresh.direction;
+          touchedLinks.add(key);
+        }
+        linkCache.set(key, existing);
+        return existing;
+      }
+      touchedLinks.add(key);
+      linkCache.set(key, fresh);
+      return fresh;
+    });
+    const linksChanged =
+      links.length !== previousLinks.size ||
+      links.some((d) => !previousLinks.has(linkKey(d)));
+    linkCacheRef.current = linkCache;
+
+    const structureChanged = nodesAdded || nodesRemoved || linksChanged;
+
+    // In layered mode, compute new positions when the structure has changed
+    if (layered) {
+      const structureKey = layoutStructureKey(topology);
+      if (layeredKeyRef.current !== structureKey) {
+        const positions = computeLayeredLayout(
+          topology,
+          width / 2,
+          height / 2
+        );
+        nodes.forEach((d) => {
+          const position = positions[d.id];
+          if (position) {
+            d.x = position.x;
+            d.y = position.y;
+            d.vx = 0;
+            d.vy = 0;
+          }
+        });
+        layeredKeyRef.current = structureKey;
+      }
+      // The layered layout pins every node; only dragging moves them
+      nodes.forEach((d) => {
+        d.fx = d.x;
+        d.fy = d.y;
+      });
+    } else if (reheat) {
+      // Switching back to the force layout releases pinned nodes
+      nodes.forEach((d) => {
+        d.fx = null;
+        d.fy = null;
+      });
+    }
 
-        if (d.nodeType === "sink") return "#FF9800"; // Orange for sinks
-
-        // For main nodes, color based on capacity
-        const baseColor = d3.rgb("#4285F4");
-        const capacityScale = d3
-          .scaleLinear()
-          .domain([1, 10]) // Assuming capacity range from 1-10
-          .range([0.7, 1.3]);
+    // Create, update and remove links
+    const linkSelection = svg
+      .select<SVGGElement>("g.links")
+      .selectAll<SVGPathElement, SimulationLink>("path")
+      .data(links, linkKey)
+      .join("path");
 
-        return baseColor.darker(capacityScale(d.capacity || 1)).toString();
-      })
-      .attr("stroke", (d) => {
-        // For physical sources with non-existent logical schemas, add black stroke
-        if (d.nodeType === "physical") {
-          const parentNode = topology.nodes.find(
-            (n) => n.connection === d.parentId
-          );
-          if (
-            parentNode &&
-            parentNode.physical &&
-            d.parentIndex !== undefined
-          ) {
-            const source = parentNode.physical[d.parentIndex];
-            if (
-              source &&
-              source.logical &&
-              !logicalSchemaExists(source.logical)
-            ) {
-              return "#000"; // Black border for warning
-            }
-          }
-        }
-        return "#fff"; // Default white stroke
+    linkSelection
+      .filter((d) => touchedLinks.has(linkKey(d)))
+      .attr("class", (d) => `link ${d.direction}`)
+      // Make main connection links thicker
+      .attr("stroke-width", (d) => (isMainLink(d) ? 2 : 1.5))
+      // Use different arrowheads for different link types
+      .attr("marker-end", (d) => {
+        if (d.direction === "physical") return "url(#arrowhead-physical)";
+        if (d.direction === "sink") return "url(#arrowhead-sink)";
+        return "url(#arrowhead-main)";
       })
-      .attr("stroke-width", (d) => {
-        // Thicker stroke for physical sources with warning
-        if (d.nodeType === "physical") {
-          const parentNode = topology.nodes.find(
-            (n) => n.connection === d.parentId
+      .classed("selected", (d) => linkKey(d) === selectedEdgeKeyRef.current);
+
+    // Clicking a main link selects it
+    const linkHitSelection = svg
+      .select<SVGGElement>("g.link-hits")
+      .selectAll<SVGPathElement, SimulationLink>("path")
+      .data(links.filter(isMainLink), linkKey)
+      .join((enter) =>
+        enter
+          .append("path")
+          .attr("class", "link-hit")
+          .on("click", function (event, d) {
+            event.stopPropagation();
+            onEdgeSelectRef.current?.({
+              source: endpointId(d.source),
+              target: endpointId(d.target),
+            });
+          })
+          .on("contextmenu", function (event, d) {
+            event.preventDefault();
+            event.stopPropagation();
+            openContextMenu(event, {
+              type: "edge",
+              source: endpointId(d.source),
+              target: endpointId(d.target),
+            });
+          })
+      );
+
+    // Create, update and remove nodes
+    const nodeSelection = svg
+      .select<SVGGElement>("g.nodes")
+      .selectAll<SVGGElement, SimulationNode>("g.node")
+      .data(nodes, (d) => d.id)
+      .join((enter) => {
+        const created = enter
+          .append("g")
+          .attr("class", (d) => `node ${d.nodeType}`)
+          .call(
+            d3
+              .drag<SVGGElement, SimulationNode>()
+              .on("start", dragstarted)
+              .on("drag", dragged)
+              .on("end", dragended)
           );
-          if (
-            parentNode &&
-            parentNode.physical &&
-            d.parentIndex !== undefined
-          ) {
-            const source = parentNode.physical[d.parentIndex];
-            if (
-              source &&
-              source.logical &&
-              !logicalSchemaExists(source.logical)
-            ) {
-              return 2; // Thicker border for warning
-            }
+
+        // Add drop target indicators to main nodes
+        created
+          .filter((d) => d.nodeType === "main")
+          .append("circle")
+          .attr("class", "drop-target")
+          .attr("r", 35) // Slightly larger than the main node circle
+          .attr("fill", "rgba(255, 255, 255, 0.1)")
+          .attr("stroke", "rgba(255, 255, 255, 0.4)")
+          .attr("stroke-width", 2)
+          .attr("stroke-dasharray", "4 2")
+          .style("opacity", 0) // Hidden by default, will be shown during dragging
+          .style("pointer-events", "none"); // Don't interfere with mouse events
+
+        // Utilization ring around main nodes: a track and the filled part
+        const mainNodes = created.filter((d) => d.nodeType === "main");
+        mainNodes
+          .append("path")
+          .attr("class", "utilization-track")
+          .attr("d", ringArc(1));
+        mainNodes.append("path").attr("class", "utilization-ring");
+
+        created.append("circle").attr("class", "node-circle");
+
+        // Add text labels to nodes - using connection as display name
+        created
+          .append("text")
+          .attr("text-anchor", "middle")
+          .style("pointer-events", "none");
+
+        // Add a tooltip to the nodes using title element
+        created.append("title");
+
+        // Add click handler for node selection - allow selection of all node types
+        created.on("click", function (event, d) {
+          event.stopPropagation();
+          if (event.shiftKey && d.nodeType === "main" && onSelectNodesRef.current) {
+            toggleNodeSelection(d.id);
+          } else {
+            selectGraphNode(d);
           }
-        }
-        return d.nodeType === "main" ? 2 : 1;
-      })
-      // Add click handler directly to the circle for better hit detection
-      .on("click", function (event, d) {
-        event.stopPropagation();
+          if (event.cancelable) event.preventDefault();
+        });
 
-        // Use the central selection handler
-        selectGraphNode(d);
+        // Double-clicking a node centers it instead of zooming in
+        created.on("dblclick", function (event, d) {
+          event.stopPropagation();
+          centerOnNode(d.id);
+        });
 
-        // Prevent event bubbling further
-        if (event.cancelable) event.preventDefault();
+        created.on("contextmenu", function (event, d) {
+          event.preventDefault();
+          event.stopPropagation();
+          if (d.nodeType === "main") {
+            openContextMenu(event, { type: "main", nodeId: d.id });
+          } else if (d.parentId !== undefined && d.parentIndex !== undefined) {
+            openContextMenu(event, {
+              type: d.nodeType === "sink" ? "sink" : "physical",
+              parentId: d.parentId,
+              index: d.parentIndex,
+              name: d.connection,
+            });
+          }
+        });
+
+        return created;
       });
 
-    // Add text labels to nodes - using connection as display name
-    node
-      .append("text")
-      .text((d) => d.connection)
-      .attr("dy", (d) => (d.nodeType === "main" ? 5 : 25)) // Position text below for smaller nodes
-      .attr("text-anchor", "middle")
-      .attr("font-size", (d) => (d.nodeType === "main" ? "12px" : "10px"))
-      .style("pointer-events", "none");
-
-    // Add a tooltip to the nodes using title element
-    node.append("title").text((d) => {
-      // For physical sources with non-existent logical schemas, add warning message
-      if (d.nodeType === "physical") {
-        const parentNode = topology.nodes.find(
-          (n) => n.connection === d.parentId
-        );
-        if (parentNode && parentNode.physical && d.parentIndex !== undefined) {
-          const source = parentNode.physical[d.parentIndex];
-          if (
-            source &&
-            source.logical &&
-            !logicalSchemaExists(source.logical)
-          ) {
-            return `Warning: Logical schema "${source.logical}" does not exist`;
-          }
-        }
+    // Child elements keep the data they were created with; hand them the
+    // new node objects when those were replaced
+    if (positionsReplaced) {
+      nodeSelection.select(".drop-target");
+    }
+    nodeSelection.classed("selected", (d) =>
+      selectedNodeIdsRef.current.includes(d.id)
+    );
+    linkSelectionRef.current = linkSelection;
+    linkHitSelectionRef.current = linkHitSelection;
+    nodeSelectionRef.current = nodeSelection;
+
+    // Re-render only nodes whose appearance changed
+    const appearanceContext = buildAppearanceContext(topology, utilization);
+    const appearances = new Map<string, NodeAppearance>();
+    nodes.forEach((d) => {
+      const appearance = getNodeAppearance(d, topology, appearanceContext);
+      const renderKey = JSON.stringify([d.nodeType, appearance]);
+      if (renderKeysRef.current.get(d.id) !== renderKey) {
+        renderKeysRef.current.set(d.id, renderKey);
+        appearances.set(d.id, appearance);
       }
-      return d.connection; // Default tooltip shows the node name
     });
 
+    const changedNodes = nodeSelection.filter((d) => appearances.has(d.id));
+    changedNodes
+      .select<SVGCircleElement>("circle.node-circle")
+      .attr("r", (d) => appearances.get(d.id)!.radius)
+      .attr("fill", (d) => appearances.get(d.id)!.fill)
+      .attr("stroke", (d) => appearances.get(d.id)!.stroke)
+      .attr("stroke-width", (d) => appearances.get(d.id)!.strokeWidth);
+    changedNodes
+      .select("text")
+      .text((d) => appearances.get(d.id)!.label)
+      .attr("dy", (d) => (d.nodeType === "main" ? 5 : 25)) // Position text below for smaller nodes
+      .attr("font-size", (d) => (d.nodeType === "main" ? "12px" : "10px"));
+    changedNodes.select("title").text((d) => appearances.get(d.id)!.title);
+    changedNodes
+      .classed("overloaded", (d) => appearances.get(d.id)!.overloaded)
+      .select<SVGPathElement>("path.utilization-ring")
+      .attr("d", (d) => ringArc(appearances.get(d.id)!.ring?.fraction || 0))
+      .attr("fill", (d) => appearances.get(d.id)!.ring?.color || "none");
+
+    // Only restart the physics when the graph structure changed
+    simulation.force("center", d3.forceCenter(width / 2, height / 2));
+    if (structureChanged || positionsReplaced) {
+      simulation.nodes(nodes);
+      simulation
+        .force<d3.ForceLink<SimulationNode, SimulationLink>>("link")!
+        .links(links);
+    }
+    // A complete saved layout is shown as it is
+    const savedLayoutComplete = positionsReplaced && !needsLayout;
+    if (
+      !layered &&
+      (reheat || needsLayout || (structureChanged && !savedLayoutComplete))
+    ) {
+      simulation.alpha(needsLayout || reheat ? 0.5 : 0.3).restart();
+    }
+    tickedRef.current();
+
+    // Show the context menu at the pointer, relative to the graph container
+    function openContextMenu(
+      event: MouseEvent,
+      target: ContextMenuState["target"]
+    ) {
+      const [x, y] = d3.pointer(event, containerRef.current);
+      setContextMenu({ target, x, y });
+    }
+
     // Node selection handler with proper typing
     function selectGraphNode(d: SimulationNode) {
-      console.log("Selecting node:", d);
+      const select = onNodeSelectRef.current;
 
       // For main nodes
       if (d.nodeType === "main") {
         // Look up the actual node in the topology
-        const actualNode = topology.nodes.find(
+        const actualNode = topologyRef.current.nodes.find(
           (node) => node.connection === d.id
         );
         if (actualNode) {
-          onNodeSelect({ type: "main", nodeId: d.id });
+          select({ type: "main", nodeId: d.id });
         }
       }
       // For physical source nodes
@@ -664,10 +1395,7 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({
         d.parentId !== undefined &&
         d.connection
       ) {
-        console.log(
-          `Selecting physical source node: parentId=${d.parentId}, name=${d.connection}`
-        );
-        onNodeSelect({
+        select({
           type: "physical",
           nodeId: d.id,
           parentId: d.parentId,
@@ -681,10 +1409,7 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({
         d.parentId !== undefined &&
         d.connection
       ) {
-        console.log(
-          `Selecting sink node: parentId=${d.parentId}, name=${d.connection}`
-        );
-        onNodeSelect({
+        select({
           type: "sink",
           nodeId: d.id,
           parentId: d.parentId,
@@ -694,58 +1419,86 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({
       }
     }
 
-    // Add click handler for node selection - allow selection of all node types
-    node.on("click", function (event, d) {
-      console.log("click");
-      event.stopPropagation();
-      selectGraphNode(d);
-      if (event.cancelable) event.preventDefault();
-    });
-
-    // Clear node selection when clicking on empty space
-    svg.on("click", function () {
-      onNodeSelect(null);
-    });
+    // Shift+click adds a main node to the selection or removes it
+    function toggleNodeSelection(id: string) {
+      const current = selectedNodeIdsRef.current;
+      onSelectNodesRef.current?.(
+        current.includes(id)
+          ? current.filter((selected) => selected !== id)
+          : [...current, id]
+      );
+    }
 
-    // Update positions on each tick of the simulation
-    function ticked() {
-      // Let the simulation handle positions naturally
-      // No need to update positions of source/sink nodes manually
-
-      // Update links with arrows - all straight lines now
-      link.attr("d", (d) => {
-        const sourceX = (d.source as SimulationNode).x || 0;
-        const sourceY = (d.source as SimulationNode).y || 0;
-        const targetX = (d.target as SimulationNode).x || 0;
-        const targetY = (d.target as SimulationNode).y || 0;
-
-        // Straight lines for all links
-        return `M${sourceX},${sourceY} L${targetX},${targetY}`;
+    // The main node under the pointer while drawing a link, and whether a
+    // link to it would be accepted
+    function findLinkTarget(x: number, y: number, source: SimulationNode) {
+      let target: SimulationNode | null = null;
+      let closestDistance = NODE_HIT_RADIUS;
+
+      nodeCacheRef.current.forEach((mainNode) => {
+        if (mainNode.nodeType !== "main") return;
+        const distance = Math.hypot((mainNode.x || 0) - x, (mainNode.y || 0) - y);
+        if (distance < closestDistance) {
+          closestDistance = distance;
+          target = mainNode;
+        }
       });
 
-      node.attr("transform", (d) => `translate(${d.x || 0},${d.y || 0})`);
+      if (!target) return null;
+      const found = target as SimulationNode;
+      // Self-links and links that already exist are rejected
+      const valid =
+        found.id !== source.id &&
+        !linkCacheRef.current.has(`${source.id}->${found.id}`);
+      return { target: found, valid };
+    }
 
-      // Save positions of all nodes after each tick
-      // This helps maintain stability even during automatic layout adjustments
-      nodes.forEach((d) => {
-        if (d.x != null && d.y != null) {
-          setNodePositions((prev) => {
-            // Only update if position has changed significantly
-            const existing = prev[d.id];
-            if (
-              !existing ||
-              Math.abs(existing.x - d.x!) > 5 ||
-              Math.abs(existing.y - d.y!) > 5
-            ) {
-              return {
-                ...prev,
-                [d.id]: { x: d.x!, y: d.y! },
-              };
-            }
-            return prev;
-          });
-        }
-      });
+    function resetDropTargets() {
+      svg
+        .selectAll(".drop-target")
+        .style("opacity", 0)
+        .style("stroke", "rgba(255, 255, 255, 0.4)")
+        .style("stroke-width", 2);
+    }
+
+    // Shift+drag from a main node draws a new downstream link
+    function drawLink(
+      event: d3.D3DragEvent<SVGGElement, SimulationNode, SimulationNode>,
+      source: SimulationNode
+    ) {
+      const candidate = findLinkTarget(event.x, event.y, source);
+
+      svg
+        .select(".link-preview")
+        .style("display", null)
+        .classed("invalid", candidate !== null && !candidate.valid)
+        .attr(
+          "d",
+          `M${source.x || 0},${source.y || 0} L${event.x},${event.y}`
+        );
+
+      svg
+        .selectAll<SVGCircleElement, SimulationNode>(".drop-target")
+        .style("opacity", (target) =>
+          candidate && target.id === candidate.target.id ? 1 : 0
+        )
+        .style("stroke", candidate?.valid ? "#4CAF50" : "#f44336")
+        .style("stroke-width", 3);
+    }
+
+    function finishLink(
+      event: d3.D3DragEvent<SVGGElement, SimulationNode, SimulationNode>,
+      source: SimulationNode
+    ) {
+      const candidate = findLinkTarget(event.x, event.y, source);
+
+      svg.select(".link-preview").style("display", "none");
+      resetDropTargets();
+      linkSourceRef.current = null;
+
+      if (candidate?.valid) {
+        onCreateLinkRef.current?.(source.id, candidate.target.id);
+      }
     }
 
     // Drag functions with position persistence
@@ -753,25 +1506,38 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({
       event: d3.D3DragEvent<SVGGElement, SimulationNode, SimulationNode>,
       d: SimulationNode
     ) {
-      if (!event.active) simulation.alphaTarget(0.3).restart();
+      if (d.nodeType === "main" && event.sourceEvent.shiftKey && onCreateLinkRef.current) {
+        linkSourceRef.current = d;
+        return;
+      }
+
+      if (!event.active && layoutModeRef.current === "force")
+        simulation!.alphaTarget(0.3).restart();
 
       // Fix position during drag
       d.fx = d.x;
       d.fy = d.y;
 
+      // Dragging one of several selected nodes moves the whole selection
+      const selected = selectedNodeIdsRef.current;
+      dragGroupRef.current =
+        d.nodeType === "main" && selected.includes(d.id)
+          ? selected
+              .filter((id) => id !== d.id)
+              .map((id) => nodeCacheRef.current.get(id))
+              .filter((n): n is SimulationNode => n !== undefined)
+          : [];
+      dragGroupRef.current.forEach((n) => {
+        n.fx = n.x;
+        n.fy = n.y;
+      });
+
       // If this is a physical source or sink, show all potential drop targets (main nodes)
       if (d.nodeType === "physical" || d.nodeType === "sink") {
         // Show drop targets on all main nodes except the current parent
-        const originalParentId = d.id.split("-")[0];
-
-        d3.selectAll(".drop-target")
-          .filter(function () {
-            // Get the parent node id from the node's data
-            const nodeData = d3
-              .select((this as any).parentNode)
-              .datum() as SimulationNode;
-            return nodeData.id !== originalParentId; // Don't show drop target on original parent
-          })
+        svg
+          .selectAll<SVGCircleElement, SimulationNode>(".drop-target")
+          .filter((target) => target.id !== d.parentId)
           .transition()
           .duration(200)
           .style("opacity", 1);
@@ -794,65 +1560,99 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({
       event: d3.D3DragEvent<SVGGElement, SimulationNode, SimulationNode>,
       d: SimulationNode
     ) {
+      if (linkSourceRef.current === d) {
+        drawLink(event, d);
+        return;
+      }
+
+      const isLayered = layoutModeRef.current === "layered";
+      const dx = event.x - (d.fx ?? event.x);
+      const dy = event.y - (d.fy ?? event.y);
+      const moveBy = (n: SimulationNode) => {
+        n.fx = (n.fx ?? n.x ?? 0) + dx;
+        n.fy = (n.fy ?? n.y ?? 0) + dy;
+        n.x = n.fx;
+        n.y = n.fy;
+      };
+
+      // The rest of a dragged selection moves by the same amount
+      dragGroupRef.current.forEach(moveBy);
+
+      // In the layered layout, satellites move along with their node
+      if (isLayered && d.nodeType === "main") {
+        const moved = new Set([d.id, ...dragGroupRef.current.map((n) => n.id)]);
+        nodeCacheRef.current.forEach((n) => {
+          if (n.parentId !== undefined && moved.has(n.parentId)) moveBy(n);
+        });
+      }
+
       // Update fixed position during drag
       d.fx = event.x;
       d.fy = event.y;
 
+      // The layered layout has no running simulation, so draw directly
+      if (isLayered) {
+        d.x = event.x;
+        d.y = event.y;
+        tickedRef.current();
+      }
+
       // If dragging a physical source or sink, highlight the closest main node
       if (d.nodeType === "physical" || d.nodeType === "sink") {
-        const originalParentId = d.id.split("-")[0];
-        const mainNodes = nodes.filter(
-          (n) => n.nodeType === "main" && n.id !== originalParentId
-        );
+        const closestNode = findDropTarget(d);
 
-        // Find the closest main node
-        let closestNode: SimulationNode | null = null;
-        let closestDistance = Infinity;
+        // Highlight the closest drop target if within range
+        svg
+          .selectAll<SVGCircleElement, SimulationNode>(".drop-target")
+          .filter((target) => target.id !== d.parentId)
+          .style("stroke", (target) =>
+            closestNode && target.id === closestNode.id
+              ? "#4CAF50" // Green highlight
+              : "rgba(255, 255, 255, 0.4)"
+          )
+          .style("stroke-width", (target) =>
+            closestNode && target.id === closestNode.id ? 3 : 2
+          );
+      }
+    }
 
-        for (const mainNode of mainNodes) {
-          const dx = (mainNode.x || 0) - (d.x || 0);
-          const dy = (mainNode.y || 0) - (d.y || 0);
-          const distance = Math.sqrt(dx * dx + dy * dy);
+    // The main node (other than the parent) a dragged satellite is over
+    function findDropTarget(d: SimulationNode): SimulationNode | null {
+      let closestNode: SimulationNode | null = null;
+      let closestDistance = Infinity;
 
-          if (distance < closestDistance) {
-            closestDistance = distance;
-            closestNode = mainNode;
-          }
-        }
+      nodeCacheRef.current.forEach((mainNode) => {
+        if (mainNode.nodeType !== "main" || mainNode.id === d.parentId) return;
 
-        // Highlight the closest drop target if within range
-        d3.selectAll(".drop-target")
-          .filter(function () {
-            const nodeData = d3
-              .select((this as any).parentNode)
-              .datum() as SimulationNode;
-            return nodeData.id !== originalParentId;
-          })
-          .style("stroke", "rgba(255, 255, 255, 0.4)")
-          .style("stroke-width", 2);
-
-        if (closestNode && closestDistance < 50) {
-          d3.selectAll(".drop-target")
-            .filter(function () {
-              const nodeData = d3
-                .select((this as any).parentNode)
-                .datum() as SimulationNode;
-              return nodeData.id === closestNode!.id;
-            })
-            .style("stroke", "#4CAF50") // Green highlight
-            .style("stroke-width", 3);
+        const dx = (mainNode.x || 0) - (d.fx ?? d.x ?? 0);
+        const dy = (mainNode.y || 0) - (d.fy ?? d.y ?? 0);
+        const distance = Math.sqrt(dx * dx + dy * dy);
+
+        if (distance < closestDistance) {
+          closestDistance = distance;
+          closestNode = mainNode;
         }
-      }
+      });
+
+      // Increased drop target radius for better usability
+      return closestDistance < 50 ? closestNode : null;
     }
 
     function dragended(
       event: d3.D3DragEvent<SVGGElement, SimulationNode, SimulationNode>,
       d: SimulationNode
     ) {
-      if (!event.active) simulation.alphaTarget(0);
+      if (linkSourceRef.current === d) {
+        finishLink(event, d);
+        return;
+      }
+
+      const isLayered = layoutModeRef.current === "layered";
+      if (!event.active && !isLayered) simulation!.alphaTarget(0);
 
       // Hide all drop targets
-      d3.selectAll(".drop-target")
+      svg
+        .selectAll(".drop-target")
         .transition()
         .duration(200)
         .style("opacity", 0);
@@ -861,142 +1661,446 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({
       d3.select(event.sourceEvent.target.parentNode).classed("dragging", false);
 
       // Reset the dragged node's appearance
+      const appearance = getNodeAppearance(
+        d,
+        topologyRef.current,
+        buildAppearanceContext(topologyRef.current, utilizationRef.current)
+      );
       d3.select(event.sourceEvent.target)
         .transition()
         .duration(200)
-        .attr(
-          "stroke",
-          d.nodeType === "main"
-            ? "#fff"
-            : d.nodeType === "physical"
-            ? isSourceWithMissingSchema(d)
-              ? "#000"
-              : "#fff"
-            : "#fff"
-        )
-        .attr(
-          "stroke-width",
-          d.nodeType === "main"
-            ? 2
-            : d.nodeType === "physical"
-            ? isSourceWithMissingSchema(d)
-              ? 2
-              : 1
-            : 1
-        );
+        .attr("stroke", appearance.stroke)
+        .attr("stroke-width", appearance.strokeWidth);
 
-      // Helper function to check if a physical source has a missing schema
-      function isSourceWithMissingSchema(d: SimulationNode): boolean {
-        if (d.nodeType === "physical") {
-          const parentNode = topology.nodes.find(
-            (n) => n.connection === d.parentId
-          );
-          if (
-            parentNode &&
-            parentNode.physical &&
-            d.parentIndex !== undefined
-          ) {
-            const source = parentNode.physical[d.parentIndex];
-            if (
-              source &&
-              source.logical &&
-              !logicalSchemaExists(source.logical)
-            ) {
-              return true;
-            }
-          }
+      // Check if this is a physical source or sink node that's been dragged onto a main node
+      if (d.nodeType === "physical" || d.nodeType === "sink") {
+        const targetNode = findDropTarget(d);
+
+        if (targetNode && d.parentId !== undefined) {
+          // Build the custom event with full information
+          const nodeInfo = {
+            sourceNodeId: `${d.parentId}-${d.nodeType}-${d.parentIndex}`,
+            targetNodeId: targetNode.id,
+            nodeType: d.nodeType,
+          };
+
+          // Dispatch custom event that App listens for
+          const reassignEvent = new CustomEvent("nodeReassign", {
+            bubbles: true,
+            detail: nodeInfo,
+          });
+          svgRef.current?.dispatchEvent(reassignEvent);
         }
-        return false;
       }
 
-      // Check if this is a physical source or sink node that's been dragged onto a main node
-      if (d.nodeType === "physical" || d.nodeType === "sink") {
-        // Find all main nodes
-        const mainNodes = nodes.filter((n) => n.nodeType === "main");
-
-        // Check if dragged over a main node (other than its current parent)
-        for (const mainNode of mainNodes) {
-          // Skip the original parent for physical/sink nodes
-          const originalParentId = d.id.split("-")[0];
-          if (mainNode.id === originalParentId) continue;
-
-          // Calculate distance to each main node's center
-          const dx = (mainNode.x || 0) - (d.x || 0);
-          const dy = (mainNode.y || 0) - (d.y || 0);
-          const distance = Math.sqrt(dx * dx + dy * dy);
-
-          // If within the main node's radius, trigger reassignment
-          if (distance < 50) {
-            // Increased drop target radius for better usability
-            // Get the index of the physical source or sink being moved
-            let indexValue = -1;
-            if (d.parentIndex !== undefined) {
-              indexValue = d.parentIndex;
-            } else {
-              // Fallback to parsing from ID if needed
-              const parts = d.id.split("-");
-              if (parts.length >= 3) {
-                indexValue = parseInt(parts[2]);
-              }
-            }
+      // Release the node to be positioned by the simulation; the layered
+      // layout keeps it where it was dropped
+      if (!isLayered) {
+        [d, ...dragGroupRef.current].forEach((n) => {
+          n.fx = null;
+          n.fy = null;
+        });
+      }
+      dragGroupRef.current = [];
+    }
+  }, [topology, layoutMode, layoutRevision, positionsVersion, utilization]);
 
-            console.log("Dragged node info:", d);
-            console.log(
-              "Dragging from:",
-              originalParentId,
-              "to:",
-              mainNode.id,
-              "index:",
-              indexValue
-            );
-
-            // Build the custom event with full information
-            const nodeInfo = {
-              sourceNodeId: `${originalParentId}-${d.nodeType}-${indexValue}`,
-              targetNodeId: mainNode.id,
-              nodeType: d.nodeType,
-            };
-
-            // Dispatch custom event that TopologyEditor can listen for
-            const reassignEvent = new CustomEvent("nodeReassign", {
-              bubbles: true,
-              detail: nodeInfo,
-            });
-            svgRef.current?.dispatchEvent(reassignEvent);
+  // A menu opened before an edit may refer to things that no longer exist
+  useEffect(() => {
+    setContextMenu(null);
+  }, [topology]);
 
-            break; // Only reassign to the first matching node
-          }
-        }
-      }
+  // Highlight search matches and dim (or, when filtering, hide) everything else.
+  // Nodes hosting a matching source or sink stay visible for context.
+  const currentMatchId =
+    searchIndex >= 0 ? searchMatches[searchIndex]?.id : undefined;
+  useEffect(() => {
+    const searching = searchQuery.trim() !== "";
+    const matched = new Set(searchMatches.map((match) => match.id));
+    const visible = new Set([
+      ...matched,
+      ...searchMatches.map((match) => match.parentId),
+    ]);
+    const hidden = (id: string) => searching && searchFilter && !visible.has(id);
+    const linkHidden = (d: SimulationLink) =>
+      hidden(endpointId(d.source)) || hidden(endpointId(d.target));
+
+    nodeSelectionRef.current
+      ?.classed("search-match", (d) => searching && matched.has(d.id))
+      .classed("search-current", (d) => d.id === currentMatchId)
+      .classed("search-dimmed", (d) => searching && !matched.has(d.id))
+      .classed("search-hidden", (d) => hidden(d.id));
+    linkSelectionRef.current
+      ?.classed(
+        "search-dimmed",
+        (d) =>
+          searching &&
+          !(matched.has(endpointId(d.source)) && matched.has(endpointId(d.target)))
+      )
+      .classed("search-hidden", linkHidden);
+    linkHitSelectionRef.current?.classed("search-hidden", linkHidden);
+  }, [
+    searchMatches,
+    searchQuery,
+    searchFilter,
+    currentMatchId,
+    layoutMode,
+    positionsVersion,
+  ]);
+
+  // Zoom and pan so the nodes fill the view, keeping a margin around them
+  const zoomToNodes = (ids: string[]) => {
+    const nodes = ids
+      .map((id) => nodeCacheRef.current.get(id))
+      .filter((d): d is SimulationNode => d !== undefined);
+    if (!svgRef.current || !zoomRef.current || !nodes.length) return;
+
+    const [minX, maxX] = d3.extent(nodes, (d) => d.x || 0) as [number, number];
+    const [minY, maxY] = d3.extent(nodes, (d) => d.y || 0) as [number, number];
+    const width = svgRef.current.clientWidth;
+    const height = svgRef.current.clientHeight;
+    const scale = Math.max(
+      MIN_SCALE,
+      Math.min(
+        MAX_FIT_SCALE,
+        width / (maxX - minX + 2 * FIT_PADDING),
+        height / (maxY - minY + 2 * FIT_PADDING)
+      )
+    );
 
-      // Release the node to be positioned by the simulation
-      d.fx = null;
-      d.fy = null;
+    d3.select(svgRef.current)
+      .transition()
+      .duration(500)
+      .call(
+        zoomRef.current.transform,
+        d3.zoomIdentity
+          .translate(width / 2, height / 2)
+          .scale(scale)
+          .translate(-(minX + maxX) / 2, -(minY + maxY) / 2)
+      );
+  };
+
+  // Zoom around the middle of the view
+  const zoomBy = (factor: number) => {
+    if (!svgRef.current || !zoomRef.current) return;
+
+    d3.select(svgRef.current)
+      .transition()
+      .duration(250)
+      .call(zoomRef.current.scaleBy, factor);
+  };
+
+  const zoomToSelection = () => {
+    const satellites = Array.from(nodeCacheRef.current.values())
+      .filter(
+        (d) => d.parentId !== undefined && selectedNodeIds.includes(d.parentId)
+      )
+      .map((d) => d.id);
+    zoomToNodes([...selectedNodeIds, ...satellites]);
+  };
+
+  // Move to the next or previous match and fit it into view, together with
+  // its sources and sinks or the node hosting it
+  const stepSearch = (delta: number) => {
+    if (!searchMatches.length) return;
+
+    const index =
+      searchIndex < 0
+        ? delta > 0
+          ? 0
+          : searchMatches.length - 1
+        : (searchIndex + delta + searchMatches.length) % searchMatches.length;
+    setSearchIndex(index);
+
+    const match = searchMatches[index];
+    const satellites = Array.from(nodeCacheRef.current.values())
+      .filter((d) => d.parentId === match.id)
+      .map((d) => d.id);
+    zoomToNodes([match.id, match.parentId, ...satellites]);
+  };
+
+  const handleSearchChange = (query: string) => {
+    setSearchQuery(query);
+    setSearchIndex(-1);
+  };
+
+  // Highlight the traced dataflow paths and dim everything else
+  useEffect(() => {
+    const onPath = (d: SimulationLink) =>
+      trace !== null &&
+      (trace.edgeKeys.has(linkKey(d)) ||
+        (!isMainLink(d) &&
+          trace.nodeIds.has(endpointId(d.source)) &&
+          trace.nodeIds.has(endpointId(d.target))));
+
+    nodeSelectionRef.current
+      ?.classed("trace-path", (d) => trace !== null && trace.nodeIds.has(d.id))
+      .classed("trace-dimmed", (d) => trace !== null && !trace.nodeIds.has(d.id));
+    linkSelectionRef.current
+      ?.classed("trace-path", onPath)
+      .classed("trace-dimmed", (d) => trace !== null && !onPath(d));
+  }, [trace, positionsVersion]);
+
+  // Colour added, removed and changed items; links to sources and sinks take
+  // the status of the source or sink
+  useEffect(() => {
+    const linkStatus = (d: SimulationLink) => {
+      if (!diff) return undefined;
+      if (isMainLink(d)) return diff.links.get(linkKey(d));
+      const satellite = [d.source, d.target].find(
+        (end) => typeof end !== "string" && end.nodeType !== "main",
+      );
+      return satellite ? diff.items.get(endpointId(satellite)) : undefined;
+    };
+
+    (["added", "removed", "changed"] as const).forEach((status) => {
+      nodeSelectionRef.current?.classed(
+        `diff-${status}`,
+        (d) => diff?.items.get(d.id) === status,
+      );
+      linkSelectionRef.current?.classed(
+        `diff-${status}`,
+        (d) => linkStatus(d) === status,
+      );
+    });
+  }, [diff, positionsVersion]);
+
+  // Highlight the selected nodes
+  const selectedNodesKey = selectedNodeIds.join("\n");
+  useEffect(() => {
+    nodeSelectionRef.current?.classed("selected", (d) =>
+      selectedNodeIdsRef.current.includes(d.id)
+    );
+  }, [selectedNodesKey]);
 
-      // Save the position for initial placement on rerender
-      setNodePositions((prev) => ({
-        ...prev,
-        [d.id]: { x: d.x || 0, y: d.y || 0 },
-      }));
+  // Highlight the selected link
+  useEffect(() => {
+    linkSelectionRef.current?.classed(
+      "selected",
+      (d) => linkKey(d) === selectedEdgeKey
+    );
+  }, [selectedEdgeKey]);
+
+  // Pan so the node is in the middle of the view, keeping the zoom level
+  const centerOnNode = (id: string) => {
+    const node = nodeCacheRef.current.get(id);
+    if (!svgRef.current || !zoomRef.current || !node) return;
+
+    d3.select(svgRef.current)
+      .transition()
+      .duration(500)
+      .call(zoomRef.current.translateTo, node.x || 0, node.y || 0);
+  };
+
+  // Move a source or sink through the same event as dropping it on a node
+  const moveSatellite = (
+    kind: "physical" | "sink",
+    parentId: string,
+    index: number,
+    targetNodeId: string
+  ) => {
+    svgRef.current?.dispatchEvent(
+      new CustomEvent("nodeReassign", {
+        bubbles: true,
+        detail: {
+          sourceNodeId: `${parentId}-${kind}-${index}`,
+          targetNodeId,
+          nodeType: kind,
+        },
+      })
+    );
+  };
+
+  // Title and items of the context menu for its target
+  const buildContextMenu = (
+    menu: ContextMenuState
+  ): { title: string; items: ContextMenuItem[] } => {
+    const { target } = menu;
+    const otherNodes = (exclude: string) =>
+      topology.nodes
+        .map((node) => node.connection)
+        .filter((connection) => connection !== exclude);
+
+    if (target.type === "edge") {
+      return {
+        title: `${target.source} → ${target.target}`,
+        items: [
+          {
+            label: "Reverse",
+            disabled: !contextActions,
+            onSelect: () =>
+              contextActions?.reverseEdge(target.source, target.target),
+          },
+          {
+            label: "Delete",
+            danger: true,
+            disabled: !contextActions,
+            onSelect: () =>
+              contextActions?.deleteEdge(target.source, target.target),
+          },
+        ],
+      };
     }
 
-    // Cleanup
-    return () => {
-      simulation.stop();
+    if (target.type === "main") {
+      const { nodeId } = target;
+      return {
+        title: nodeId,
+        items: [
+          {
+            label: "Add physical source",
+            submenu: (topology.logical || []).map((schema) => ({
+              label: schema.name,
+              onSelect: () => contextActions?.addSource(nodeId, schema.name),
+            })),
+            disabled: !contextActions,
+          },
+          {
+            label: "Add sink",
+            disabled: !contextActions,
+            onSelect: () => contextActions?.addSink(nodeId),
+          },
+          {
+            label: "Add downstream to…",
+            submenu: otherNodes(nodeId)
+              .filter((other) => !hasEdge(topology, nodeId, other))
+              .map((other) => ({
+                label: other,
+                onSelect: () => onCreateLink?.(nodeId, other),
+              })),
+            disabled: !onCreateLink,
+          },
+          {
+            label: "Duplicate node",
+            disabled: !contextActions,
+            onSelect: () => contextActions?.duplicateNode(nodeId),
+          },
+          { label: "Center view", onSelect: () => centerOnNode(nodeId) },
+          {
+            label: "Delete node",
+            danger: true,
+            disabled: !contextActions,
+            onSelect: () => contextActions?.deleteNode(nodeId),
+          },
+        ],
+      };
+    }
+
+    const { type: kind, parentId, index, name } = target;
+    return {
+      title: `${kind === "sink" ? "Sink" : "Source"} ${name} on ${parentId}`,
+      items: [
+        {
+          label: "Move to node",
+          submenu: otherNodes(parentId).map((other) => ({
+            label: other,
+            onSelect: () => moveSatellite(kind, parentId, index, other),
+          })),
+        },
+        {
+          label: "Duplicate",
+          disabled: !contextActions,
+          onSelect: () =>
+            contextActions?.duplicateSatellite(kind, parentId, index),
+        },
+        {
+          label: "Remove",
+          danger: true,
+          disabled: !contextActions,
+          onSelect: () => contextActions?.removeSatellite(kind, parentId, index),
+        },
+      ],
     };
-  }, [topology, onNodeSelect]);
+  };
+
+  const closeContextMenu = useCallback(() => setContextMenu(null), []);
+  const contextMenuContent = contextMenu ? buildContextMenu(contextMenu) : null;
+
+  // Switch layout mode; choosing the current mode runs it again
+  const handleLayoutChange = (mode: LayoutMode) => {
+    if (mode === "layered") {
+      layeredKeyRef.current = null;
+    } else {
+      reheatRef.current = true;
+    }
+    setLayoutMode(mode);
+    setLayoutRevision((revision) => revision + 1);
+  };
 
   return (
     <div ref={containerRef} className="graph-container">
       <svg ref={svgRef} width="100%" height="100%" />
+      <GraphSearch
+        query={searchQuery}
+        onQueryChange={handleSearchChange}
+        matches={searchMatches}
+        currentIndex={searchIndex < searchMatches.length ? searchIndex : -1}
+        onStep={stepSearch}
+        filter={searchFilter}
+        onFilterChange={setSearchFilter}
+      />
+      <div className="graph-toolbar">
+        <span className="graph-toolbar-label">Layout</span>
+        <button
+          className={layoutMode === "force" ? "active" : ""}
+          onClick={() => handleLayoutChange("force")}
+          title="Position nodes with a force simulation"
+        >
+          Force
+        </button>
+        <button
+          className={layoutMode === "layered" ? "active" : ""}
+          onClick={() => handleLayoutChange("layered")}
+          title="Arrange nodes in layers from sources to sinks"
+        >
+          Layered
+        </button>
+        <span className="graph-toolbar-separator" />
+        <span className="graph-toolbar-label">View</span>
+        <button onClick={() => zoomBy(1 / ZOOM_STEP)} title="Zoom out">
+          −
+        </button>
+        <button onClick={() => zoomBy(ZOOM_STEP)} title="Zoom in">
+          +
+        </button>
+        <button
+          onClick={() => zoomToNodes(Array.from(nodeCacheRef.current.keys()))}
+          title="Fit the whole topology into view"
+        >
+          Fit all
+        </button>
+        <button
+          onClick={zoomToSelection}
+          disabled={selectedNodeIds.length === 0}
+          title="Fit the selected nodes and their sources and sinks into view"
+        >
+          Zoom to selection
+        </button>
+      </div>
+      <svg
+        ref={minimapRef}
+        className="graph-minimap"
+        width={MINIMAP_WIDTH}
+        height={MINIMAP_HEIGHT}
+      />
+      {contextMenu && contextMenuContent && (
+        <GraphContextMenu
+          menu={contextMenu}
+          title={contextMenuContent.title}
+          items={contextMenuContent.items}
+          onClose={closeContextMenu}
+        />
+      )}
       <div className="graph-hint">
         <div className="hint-icon">💡</div>
         <div className="hint-text">
-          Drag physical sources and sinks to move them between nodes
+          Drag physical sources and sinks to move them between nodes;
+          Shift+drag from one node to another to link them; Shift+click or
+          Shift+drag over the background to select several nodes
         </div>
       </div>
     </div>
   );
-};
+});
 
 export default GraphVisualization;
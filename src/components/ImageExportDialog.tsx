@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { ImageExportOptions, ImageFormat } from '../utils/imageExport';
+
+interface ImageExportDialogProps {
+  onExport: (format: ImageFormat, scale: number, options: ImageExportOptions) => void;
+  onClose: () => void;
+}
+
+const PNG_SCALES = [1, 2, 3, 4];
+
+const ImageExportDialog: React.FC<ImageExportDialogProps> = ({ onExport, onClose }) => {
+  const [format, setFormat] = useState<ImageFormat>('svg');
+  const [scale, setScale] = useState(2);
+  const [options, setOptions] = useState<ImageExportOptions>({
+    background: 'white',
+    hideSatellites: false,
+    legend: true
+  });
+
+  return (
+    <div className="modal" onClick={onClose}>
+      <div className="modal-content image-export" onClick={(e) => e.stopPropagation()}>
+        <h3>Export Image</h3>
+        <div className="property-field">
+          <label>Format:</label>
+          <select value={format} onChange={(e) => setFormat(e.target.value as ImageFormat)}>
+            <option value="svg">SVG</option>
+            <option value="png">PNG</option>
+          </select>
+        </div>
+        {format === 'png' && (
+          <div className="property-field">
+            <label>Scale:</label>
+            <select value={scale} onChange={(e) => setScale(Number(e.target.value))}>
+              {PNG_SCALES.map(value => (
+                <option key={value} value={value}>{value}×</option>
+              ))}
+            </select>
+          </div>
+        )}
+        <div className="property-field">
+          <label>Background:</label>
+          <select
+            value={options.background}
+            onChange={(e) => setOptions({ ...options, background: e.target.value as ImageExportOptions['background'] })}
+          >
+            <option value="white">White</option>
+            <option value="transparent">Transparent</option>
+          </select>
+        </div>
+        <label className="checkbox-field">
+          <input
+            type="checkbox"
+            checked={options.hideSatellites}
+            onChange={(e) => setOptions({ ...options, hideSatellites: e.target.checked })}
+          />
+          Hide physical sources and sinks
+        </label>
+        <label className="checkbox-field">
+          <input
+            type="checkbox"
+            checked={options.legend}
+            onChange={(e) => setOptions({ ...options, legend: e.target.checked })}
+          />
+          Add a legend of logical schema colours
+        </label>
+        <div className="controls">
+          <button onClick={() => onExport(format, scale, options)}>Export</button>
+          <button onClick={onClose}>Cancel</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageExportDialog;
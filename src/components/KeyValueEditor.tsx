@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+
+type ValueKind = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+type ValueMap = { [key: string]: unknown };
+
+interface KeyValueEditorProps {
+  value: ValueMap;
+  onChange: (value: ValueMap) => void;
+  // Keys that are edited elsewhere and cannot be added here
+  reservedKeys?: string[];
+}
+
+interface ValueEditorProps {
+  value: unknown;
+  onChange: (value: unknown) => void;
+}
+
+interface ArrayEditorProps {
+  value: unknown[];
+  onChange: (value: unknown[]) => void;
+}
+
+const kindOf = (value: unknown): ValueKind => {
+  if (Array.isArray(value)) return 'array';
+  if (value !== null && typeof value === 'object') return 'object';
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  return 'string';
+};
+
+// Convert a value when the user switches its kind, keeping what can be kept
+const convertValue = (value: unknown, kind: ValueKind): unknown => {
+  switch (kind) {
+    case 'number':
+      return isNaN(Number(value)) ? 0 : Number(value);
+    case 'boolean':
+      return value === true || value === 'true';
+    case 'object':
+      return {};
+    case 'array':
+      return [];
+    default:
+      return typeof value === 'object' ? '' : String(value);
+  }
+};
+
+// Editor for a single value of any kind; objects and arrays are edited recursively
+const ValueEditor: React.FC<ValueEditorProps> = ({ value, onChange }) => {
+  const kind = kindOf(value);
+
+  return (
+    <div className="kv-value">
+      <div className="kv-value-row">
+        <select
+          className="kv-kind"
+          value={kind}
+          onChange={(e) => onChange(convertValue(value, e.target.value as ValueKind))}
+        >
+          <option value="string">Text</option>
+          <option value="number">Number</option>
+          <option value="boolean">Boolean</option>
+          <option value="object">Object</option>
+          <option value="array">List</option>
+        </select>
+        {kind === 'string' && (
+          <input type="text" value={String(value ?? '')} onChange={(e) => onChange(e.target.value)} />
+        )}
+        {kind === 'number' && (
+          <input type="number" value={Number(value)} onChange={(e) => onChange(Number(e.target.value))} />
+        )}
+        {kind === 'boolean' && (
+          <select value={String(value)} onChange={(e) => onChange(e.target.value === 'true')}>
+            <option value="true">True</option>
+            <option value="false">False</option>
+          </select>
+        )}
+      </div>
+      {kind === 'object' && <KeyValueEditor value={value as ValueMap} onChange={onChange} />}
+      {kind === 'array' && <ArrayEditor value={value as unknown[]} onChange={onChange} />}
+    </div>
+  );
+};
+
+const ArrayEditor: React.FC<ArrayEditorProps> = ({ value: items, onChange }) => {
+  return (
+    <div className="kv-nested">
+      {items.map((item, index) => (
+        <div key={index} className="kv-entry">
+          <div className="kv-key">[{index}]</div>
+          <ValueEditor
+            value={item}
+            onChange={(updated) => onChange(items.map((other, i) => (i === index ? updated : other)))}
+          />
+          <button className="remove-button" onClick={() => onChange(items.filter((_, i) => i !== index))}>
+            ✕
+          </button>
+        </div>
+      ))}
+      <button className="kv-add" onClick={() => onChange([...items, ''])}>Add Item</button>
+    </div>
+  );
+};
+
+// Generic editor for a map of keys to nested values
+const KeyValueEditor: React.FC<KeyValueEditorProps> = ({ value, onChange, reservedKeys = [] }) => {
+  const [newKey, setNewKey] = useState('');
+  const keyReserved = reservedKeys.includes(newKey);
+  const keyExists = Object.prototype.hasOwnProperty.call(value, newKey) || keyReserved;
+
+  const handleAddKey = () => {
+    if (!newKey || keyExists) return;
+    onChange({ ...value, [newKey]: '' });
+    setNewKey('');
+  };
+
+  return (
+    <div className="kv-nested">
+      {Object.entries(value).map(([key, entry]) => (
+        <div key={key} className="kv-entry">
+          <div className="kv-key">{key}</div>
+          <ValueEditor value={entry} onChange={(updated) => onChange({ ...value, [key]: updated })} />
+          <button
+            className="remove-button"
+            onClick={() => {
+              const { [key]: _removed, ...rest } = value;
+              onChange(rest);
+            }}
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <div className="kv-add-key">
+        <input
+          type="text"
+          placeholder="New key"
+          value={newKey}
+          onChange={(e) => setNewKey(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleAddKey();
+          }}
+        />
+        <button className="kv-add" onClick={handleAddKey} disabled={!newKey || keyExists}>
+          Add Key
+        </button>
+      </div>
+      {keyReserved && <div className="field-error">'{newKey}' is set with the fields above</div>}
+    </div>
+  );
+};
+
+export default KeyValueEditor;
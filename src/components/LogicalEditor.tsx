@@ -1,5 +1,15 @@
 import React, { useState } from 'react';
-import { LogicalSchema, SchemaField } from '../types';
+import {
+  DATA_TYPES,
+  DEFAULT_DATA_TYPE,
+  findDataType,
+  isDataType,
+  LEGACY_DATA_TYPES,
+  LogicalSchema,
+  SchemaField
+} from '../types';
+import { findSchemaErrors, hasSchemaErrors } from '../utils/logicalSchemas';
+import CsvSampleDialog from './CsvSampleDialog';
 
 interface LogicalEditorProps {
   schemas: LogicalSchema[];
@@ -20,6 +30,14 @@ const LogicalEditor: React.FC<LogicalEditorProps> = ({
     name: '',
     schema: []
   });
+  // Errors are shown once saving has been attempted
+  const [showErrors, setShowErrors] = useState(false);
+  const [showSampleDialog, setShowSampleDialog] = useState(false);
+
+  const otherNames = schemas
+    .filter((_, index) => editMode !== 'edit' || index !== selectedSchemaIndex)
+    .map(schema => schema.name);
+  const errors = findSchemaErrors(editingSchema, otherNames);
   
   // Select a schema to view/edit
   const handleSelectSchema = (index: number) => {
@@ -33,6 +51,7 @@ const LogicalEditor: React.FC<LogicalEditorProps> = ({
     
     setEditingSchema({...schemas[selectedSchemaIndex]});
     setEditMode('edit');
+    setShowErrors(false);
   };
   
   // Start adding a new schema
@@ -43,10 +62,28 @@ const LogicalEditor: React.FC<LogicalEditorProps> = ({
     });
     setEditMode('add');
     setSelectedSchemaIndex(null);
+    setShowErrors(false);
+  };
+  
+  // Start adding a schema with the fields proposed for a CSV sample
+  const handleUseSample = (fields: SchemaField[], name: string) => {
+    setEditingSchema({
+      name: schemas.some(schema => schema.name === name) ? '' : name,
+      schema: fields
+    });
+    setEditMode('add');
+    setSelectedSchemaIndex(null);
+    setShowErrors(false);
+    setShowSampleDialog(false);
   };
   
   // Save changes to schema (add or update)
   const handleSaveSchema = () => {
+    if (hasSchemaErrors(errors)) {
+      setShowErrors(true);
+      return;
+    }
+
     if (editMode === 'add') {
       onAddSchema(editingSchema);
       setSelectedSchemaIndex(schemas.length);
@@ -86,7 +123,20 @@ const LogicalEditor: React.FC<LogicalEditorProps> = ({
   const handleAddField = () => {
     setEditingSchema({
       ...editingSchema,
-      schema: [...editingSchema.schema, { name: '', type: 'UINT64' }]
+      schema: [...editingSchema.schema, { name: '', type: DEFAULT_DATA_TYPE }]
+    });
+  };
+
+  // Move a field up or down; field order is the column order of CSV input
+  const handleMoveField = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= editingSchema.schema.length) return;
+
+    const updatedSchema = [...editingSchema.schema];
+    [updatedSchema[index], updatedSchema[target]] = [updatedSchema[target], updatedSchema[index]];
+    setEditingSchema({
+      ...editingSchema,
+      schema: updatedSchema
     });
   };
   
@@ -134,6 +184,7 @@ const LogicalEditor: React.FC<LogicalEditorProps> = ({
         
         <div className="schema-actions">
           <button onClick={handleAddSchemaClick}>Add Schema</button>
+          <button onClick={() => setShowSampleDialog(true)}>Import from Sample</button>
         </div>
       </div>
       
@@ -153,7 +204,9 @@ const LogicalEditor: React.FC<LogicalEditorProps> = ({
                 {schemas[selectedSchemaIndex].schema.map((field, index) => (
                   <tr key={index}>
                     <td>{field.name}</td>
-                    <td>{field.type}</td>
+                    <td title={findDataType(field.type)?.description}>
+                      {field.type}
+                    </td>
                   </tr>
                 ))}
               </tbody>
@@ -180,30 +233,48 @@ const LogicalEditor: React.FC<LogicalEditorProps> = ({
               onChange={handleSchemaNameChange}
               placeholder="Enter schema name"
             />
+            {showErrors && errors.name && <div className="field-error">{errors.name}</div>}
           </div>
           
           <h4>Fields</h4>
           {editingSchema.schema.map((field, index) => (
-            <div key={index} className="field-editor">
-              <input
-                type="text"
-                value={field.name}
-                onChange={(e) => handleFieldChange(index, {...field, name: e.target.value})}
-                placeholder="Field name"
-              />
-              <select
-                value={field.type}
-                onChange={(e) => handleFieldChange(index, {...field, type: e.target.value})}
-              >
-                <option value="UINT64">UINT64</option>
-                <option value="INT64">INT64</option>
-                <option value="DOUBLE">DOUBLE</option>
-                <option value="STRING">STRING</option>
-                <option value="BOOLEAN">BOOLEAN</option>
-              </select>
-              <button onClick={() => handleRemoveField(index)}>Remove</button>
+            <div key={index} className="field-row">
+              <div className="field-editor">
+                <input
+                  type="text"
+                  value={field.name}
+                  onChange={(e) => handleFieldChange(index, {...field, name: e.target.value})}
+                  placeholder="Field name"
+                />
+                <select
+                  value={field.type}
+                  onChange={(e) => handleFieldChange(index, {...field, type: e.target.value})}
+                >
+                  {!DATA_TYPES.some(dataType => dataType.type === field.type) && (
+                    <option value={field.type}>
+                      {field.type} {isDataType(field.type) ? `(same as ${LEGACY_DATA_TYPES[field.type]})` : '(unknown)'}
+                    </option>
+                  )}
+                  {DATA_TYPES.map(dataType => (
+                    <option key={dataType.type} value={dataType.type} title={dataType.description}>
+                      {dataType.type}
+                    </option>
+                  ))}
+                </select>
+                <button onClick={() => handleMoveField(index, -1)} disabled={index === 0} title="Move up">↑</button>
+                <button
+                  onClick={() => handleMoveField(index, 1)}
+                  disabled={index === editingSchema.schema.length - 1}
+                  title="Move down"
+                >
+                  ↓
+                </button>
+                <button onClick={() => handleRemoveField(index)}>Remove</button>
+              </div>
+              {showErrors && errors.fields[index] && <div className="field-error">{errors.fields[index]}</div>}
             </div>
           ))}
+          {showErrors && errors.schema && <div className="field-error">{errors.schema}</div>}
           
           <div className="field-actions">
             <button onClick={handleAddField}>Add Field</button>
@@ -215,6 +286,10 @@ const LogicalEditor: React.FC<LogicalEditorProps> = ({
           </div>
         </div>
       )}
+
+      {showSampleDialog && (
+        <CsvSampleDialog onUse={handleUseSample} onClose={() => setShowSampleDialog(false)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,44 @@
+import React from 'react';
+import { Problem } from '../utils/validation';
+
+interface ProblemsPanelProps {
+  problems: Problem[];
+  onSelectProblem: (problem: Problem) => void;
+}
+
+const ProblemsPanel: React.FC<ProblemsPanelProps> = ({ problems, onSelectProblem }) => {
+  const errorCount = problems.filter(problem => problem.severity === 'error').length;
+  const warningCount = problems.length - errorCount;
+
+  return (
+    <div className="problems-panel">
+      <h2>Problems</h2>
+      <div className="problems-summary">
+        {errorCount} error{errorCount === 1 ? '' : 's'}, {warningCount} warning{warningCount === 1 ? '' : 's'}
+      </div>
+
+      {problems.length === 0 ? (
+        <div className="empty-list">No problems found</div>
+      ) : (
+        <ul>
+          {problems.map((problem, index) => (
+            <li
+              key={index}
+              className={`problem ${problem.severity}`}
+              onClick={() => onSelectProblem(problem)}
+              title="Click to select"
+            >
+              <span className="problem-severity">{problem.severity === 'error' ? '✗' : '⚠'}</span>
+              <div className="problem-text">
+                <div className="problem-message">{problem.message}</div>
+                <div className="problem-location">{problem.location.path}</div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ProblemsPanel;
@@ -1,33 +1,211 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Node, PhysicalSource, Sink, NodeSelection, LogicalSchema } from '../types';
+import ConfigForm from './ConfigForm';
+import { ConfigTypeDefinition, findConfigType, migrateConfig, migrateFields } from '../catalog/configFields';
+import { SOURCE_TYPES, PARSER_TYPES } from '../catalog/sourceTypes';
+import { SINK_TYPES } from '../catalog/sinkTypes';
+import { createPhysicalSource, createSink } from '../utils/topologyEdits';
+import { DataflowTrace, groupByStream } from '../utils/dataflow';
+import SampleDataCheck from './SampleDataCheck';
 
 interface PropertyEditorProps {
   selectedNode: Node | null;
   selectedNodeId: NodeSelection;
   topology: { nodes: Node[], logical?: LogicalSchema[] };
   onPropertyChange: (property: string, value: any) => void;
+  // Returns an explanation if the rename is refused
+  onRenameNode: (from: string, to: string) => string | null;
   onAddSource: (nodeId: string, source: PhysicalSource) => void;
   onAddSink: (nodeId: string, sink: Sink) => void;
   onRemoveSource: (nodeId: string, sourceIndex: number) => void;
   onRemoveSink: (nodeId: string, sinkIndex: number) => void;
+  // Main nodes selected together; two or more are edited in bulk
+  selectedNodes: Node[];
+  onBulkCapacityChange: (capacity: number) => void;
+  onDeleteNodes: () => void;
+  onAddSourceToNodes: (logical: string) => void;
+  onAddSinkToNodes: (name: string) => void;
+  // Dataflow paths of the selected source or sink
+  trace: DataflowTrace | null;
 }
 
+// The value all items share, or undefined if they differ
+const sharedValue = <T,>(values: T[]): T | undefined =>
+  values.every(value => value === values[0]) ? values[0] : undefined;
+
 const PropertyEditor: React.FC<PropertyEditorProps> = ({ 
   selectedNode, 
   selectedNodeId,
   topology,
   onPropertyChange, 
+  onRenameNode,
   onAddSource, 
   onAddSink,
   onRemoveSource,
-  onRemoveSink
+  onRemoveSink,
+  selectedNodes,
+  onBulkCapacityChange,
+  onDeleteNodes,
+  onAddSourceToNodes,
+  onAddSinkToNodes,
+  trace
 }) => {
   const [newSourceName, setNewSourceName] = useState('');
   const [newSinkName, setNewSinkName] = useState('');
+  // Connection edits are kept as a draft and applied as a rename on Enter or blur
+  const [connectionDraft, setConnectionDraft] = useState<string | null>(null);
+  const [renameError, setRenameError] = useState('');
+
+  useEffect(() => {
+    setConnectionDraft(null);
+    setRenameError('');
+  }, [selectedNode?.connection]);
   
+  // Select for a config type from a catalogue; unknown types stay selectable so they are not lost
+  const renderTypeSelect = (
+    catalogue: ConfigTypeDefinition[],
+    currentType: string,
+    onSelect: (definition: ConfigTypeDefinition) => void
+  ) => {
+    const known = findConfigType(catalogue, currentType);
+    return (
+      <select
+        value={known ? known.type : currentType}
+        onChange={(e) => {
+          const definition = findConfigType(catalogue, e.target.value);
+          if (definition) onSelect(definition);
+        }}
+      >
+        {catalogue.map(definition => (
+          <option key={definition.type} value={definition.type}>{definition.label}</option>
+        ))}
+        {!known && <option value={currentType}>{currentType}</option>}
+      </select>
+    );
+  };
+
   // Get logical schema options for dropdown
   const logicalSchemaOptions = topology.logical?.map(schema => schema.name) || [];
 
+  // Handle a selection of several main nodes; fields that differ between them show as mixed
+  if (selectedNodes.length > 1) {
+    const capacity = sharedValue(selectedNodes.map(node => node.capacity));
+    const sources = sharedValue(selectedNodes.map(node => (node.physical || []).map(source => source.logical).join(', ')));
+    const sinkTypes = sharedValue(selectedNodes.map(node => (node.sinks || []).map(sink => sink.type).join(', ')));
+
+    const renderShared = (value: string | undefined, empty: string) =>
+      value === undefined ? (
+        <div className="mixed-value">mixed</div>
+      ) : (
+        <div className="shared-value">{value || empty}</div>
+      );
+
+    return (
+      <div className="property-editor">
+        <h3>{selectedNodes.length} Nodes Selected</h3>
+        <div className="properties">
+          <div className="property-section">
+            <h4>Shared Properties:</h4>
+            <div className="property-field">
+              <label>Capacity:</label>
+              <input
+                type="number"
+                value={capacity ?? ''}
+                placeholder="mixed"
+                onChange={(e) => {
+                  if (e.target.value !== '') onBulkCapacityChange(Number(e.target.value));
+                }}
+              />
+            </div>
+            <div className="property-field">
+              <label>Physical Sources:</label>
+              {renderShared(sources, 'None')}
+            </div>
+            <div className="property-field">
+              <label>Sinks:</label>
+              {renderShared(sinkTypes, 'None')}
+            </div>
+            <button className="remove-button" onClick={onDeleteNodes}>
+              Delete {selectedNodes.length} Nodes
+            </button>
+          </div>
+
+          <div className="property-section">
+            <h4>Add to All Selected:</h4>
+            <div className="add-item">
+              {logicalSchemaOptions.length > 0 ? (
+                <>
+                  <select
+                    value={newSourceName}
+                    onChange={(e) => setNewSourceName(e.target.value)}
+                  >
+                    <option value="">Select logical schema</option>
+                    {logicalSchemaOptions.map(schema => (
+                      <option key={schema} value={schema}>{schema}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => {
+                      onAddSourceToNodes(newSourceName);
+                      setNewSourceName('');
+                    }}
+                    disabled={!newSourceName}
+                  >
+                    Add Source
+                  </button>
+                </>
+              ) : (
+                <div className="warning-message">
+                  Add logical schemas in the Logical tab first
+                </div>
+              )}
+            </div>
+            <div className="add-item">
+              <input
+                type="text"
+                placeholder="New sink name"
+                value={newSinkName}
+                onChange={(e) => setNewSinkName(e.target.value)}
+              />
+              <button
+                onClick={() => {
+                  onAddSinkToNodes(newSinkName);
+                  setNewSinkName('');
+                }}
+                disabled={!newSinkName}
+                title="Sink names must be unique, so later copies get a number appended"
+              >
+                Add Sink
+              </button>
+            </div>
+          </div>
+
+          <div className="property-section">
+            <h4>Selected Nodes:</h4>
+            <div className="item-list">
+              {selectedNodes.map(node => (
+                <div
+                  key={node.connection}
+                  className="list-item clickable"
+                  onClick={() => {
+                    // Edit just this node
+                    onPropertyChange('_selectNode', {
+                      type: 'main',
+                      nodeId: node.connection
+                    });
+                  }}
+                >
+                  <div className="item-name">{node.connection}</div>
+                  <div className="item-type">capacity {node.capacity}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   if (!selectedNode && !selectedNodeId) {
     return <div className="property-editor">No node selected</div>;
   }
@@ -99,25 +277,21 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({
             </div>
             <div className="property-field">
               <label>Parser Type:</label>
-              <input
-                type="text"
-                value={physicalSource.parserConfig.type}
-                onChange={(e) => {
-                  // Use the new specific property handler
-                  onPropertyChange('parserType', e.target.value);
-                }}
-              />
+              {renderTypeSelect(PARSER_TYPES, physicalSource.parserConfig.type, (definition) => {
+                onPropertyChange(`physical[${sourceIndex}]`, {
+                  ...physicalSource,
+                  parserConfig: migrateConfig(physicalSource.parserConfig, definition)
+                });
+              })}
             </div>
             <div className="property-field">
               <label>Source Type:</label>
-              <input
-                type="text"
-                value={physicalSource.sourceConfig.type}
-                onChange={(e) => {
-                  // Use the new specific property handler
-                  onPropertyChange('sourceType', e.target.value);
-                }}
-              />
+              {renderTypeSelect(SOURCE_TYPES, physicalSource.sourceConfig.type, (definition) => {
+                onPropertyChange(`physical[${sourceIndex}]`, {
+                  ...physicalSource,
+                  sourceConfig: migrateConfig(physicalSource.sourceConfig, definition)
+                });
+              })}
             </div>
             <button 
               className="remove-button"
@@ -127,10 +301,71 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({
             </button>
           </div>
           <div className="property-section">
-            <h4>Advanced Configuration:</h4>
-            <div className="complex-property">
-              Edit advanced configuration in the YAML editor
+            <h4>Parser Configuration:</h4>
+            <ConfigForm
+              definition={findConfigType(PARSER_TYPES, physicalSource.parserConfig.type)}
+              config={physicalSource.parserConfig}
+              reservedKeys={['type']}
+              onChange={(config) => {
+                onPropertyChange(`physical[${sourceIndex}]`, {
+                  ...physicalSource,
+                  parserConfig: { ...config, type: physicalSource.parserConfig.type }
+                });
+              }}
+            />
+          </div>
+          <div className="property-section">
+            <h4>Source Configuration:</h4>
+            <ConfigForm
+              definition={findConfigType(SOURCE_TYPES, physicalSource.sourceConfig.type)}
+              config={physicalSource.sourceConfig}
+              reservedKeys={['type']}
+              onChange={(config) => {
+                onPropertyChange(`physical[${sourceIndex}]`, {
+                  ...physicalSource,
+                  sourceConfig: { ...config, type: physicalSource.sourceConfig.type }
+                });
+              }}
+            />
+          </div>
+          {physicalSource.parserConfig.type.toUpperCase() === 'CSV' && (
+            <div className="property-section">
+              <h4>Sample Data:</h4>
+              <SampleDataCheck
+                key={`${parentId}-${sourceIndex}`}
+                source={physicalSource}
+                schema={topology.logical?.find(schema => schema.name === physicalSource.logical)}
+              />
             </div>
+          )}
+          <div className="property-section">
+            <h4>Dataflow:</h4>
+            {trace && trace.endpoints.length > 0 ? (
+              <div className="item-list">
+                {trace.endpoints.map(sink => (
+                  <div
+                    key={`${sink.connection}-${sink.index}`}
+                    className="list-item clickable"
+                    onClick={() => {
+                      onPropertyChange('_selectSink', {
+                        type: 'sink',
+                        nodeId: `${sink.connection}-sink-${sink.index}`,
+                        parentId: sink.connection,
+                        name: sink.name,
+                        sinkIndex: sink.index
+                      });
+                    }}
+                  >
+                    <div className="item-name">{sink.name}</div>
+                    <div className="item-type">{sink.connection}</div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="warning-message">
+                This source cannot reach any sink, so its data is never output
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -202,14 +437,15 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({
             </div>
             <div className="property-field">
               <label>Type:</label>
-              <input
-                type="text"
-                value={sink.type}
-                onChange={(e) => {
-                  const updatedSink = {...sink, type: e.target.value};
-                  onPropertyChange(`sinks[${sinkIndex}]`, updatedSink);
-                }}
-              />
+              {renderTypeSelect(SINK_TYPES, sink.type, (definition) => {
+                // Keep settings that still apply to the new type
+                const config = migrateFields(sink.config || {}, definition);
+                const updatedSink: Sink = { name: sink.name, type: definition.type };
+                if (Object.keys(config).length) {
+                  updatedSink.config = config;
+                }
+                onPropertyChange(`sinks[${sinkIndex}]`, updatedSink);
+              })}
             </div>
             <button 
               className="remove-button"
@@ -218,14 +454,50 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({
               Remove Sink
             </button>
           </div>
-          {sink.config && (
-            <div className="property-section">
-              <h4>Sink Configuration:</h4>
-              <div className="complex-property">
-                Edit configuration in the YAML editor
-              </div>
-            </div>
-          )}
+          <div className="property-section">
+            <h4>Sink Configuration:</h4>
+            <ConfigForm
+              definition={findConfigType(SINK_TYPES, sink.type)}
+              config={sink.config || {}}
+              onChange={(config) => {
+                const { config: _previous, ...rest } = sink;
+                const updatedSink: Sink = Object.keys(config).length ? { ...rest, config } : rest;
+                onPropertyChange(`sinks[${sinkIndex}]`, updatedSink);
+              }}
+            />
+          </div>
+          <div className="property-section">
+            <h4>Sources Reaching This Sink:</h4>
+            {trace && trace.endpoints.length > 0 ? (
+              Array.from(groupByStream(trace.endpoints), ([stream, sources]) => (
+                <div key={stream} className="stream-group">
+                  <div className="stream-group-name">{stream}</div>
+                  <div className="item-list">
+                    {sources.map(source => (
+                      <div
+                        key={`${source.connection}-${source.index}`}
+                        className="list-item clickable"
+                        onClick={() => {
+                          onPropertyChange('_selectSource', {
+                            type: 'physical',
+                            nodeId: `${source.connection}-physical-${source.index}`,
+                            parentId: source.connection,
+                            name: source.name,
+                            physicalSourceIndex: source.index
+                          });
+                        }}
+                      >
+                        <div className="item-name">{source.connection}</div>
+                        <div className="item-type">source {source.index + 1}</div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))
+            ) : (
+              <div className="empty-list">No physical source reaches this sink</div>
+            )}
+          </div>
         </div>
       </div>
     );
@@ -276,21 +548,24 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({
     );
   };
 
+  // Apply the drafted connection as a rename of the selected node
+  const commitRename = () => {
+    if (connectionDraft === null || !selectedNode) return;
+
+    const error = onRenameNode(selectedNode.connection, connectionDraft);
+    if (error) {
+      setRenameError(error);
+      return;
+    }
+    setConnectionDraft(null);
+    setRenameError('');
+  };
+
   // Handler for adding a new physical source
   const handleAddSource = () => {
     if (!newSourceName) return;
 
-    const newSource: PhysicalSource = {
-      logical: newSourceName,
-      parserConfig: {
-        type: 'json'
-      },
-      sourceConfig: {
-        type: 'file'
-      }
-    };
-
-    onAddSource(selectedNode!.connection, newSource);
+    onAddSource(selectedNode!.connection, createPhysicalSource(newSourceName));
     setNewSourceName('');
   };
 
@@ -298,12 +573,7 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({
   const handleAddSink = () => {
     if (!newSinkName) return;
 
-    const newSink: Sink = {
-      name: newSinkName,
-      type: 'stdout'  // Default type
-    };
-
-    onAddSink(selectedNode!.connection, newSink);
+    onAddSink(selectedNode!.connection, createSink(newSinkName));
     setNewSinkName('');
   };
 
@@ -315,7 +585,28 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({
           <h4>Basic Properties:</h4>
           <div className="property-field">
             <label>Connection:</label>
-            {renderPropertyInput('connection', selectedNode!.connection)}
+            <input
+              type="text"
+              value={connectionDraft ?? selectedNode!.connection}
+              onChange={(e) => {
+                setConnectionDraft(e.target.value);
+                setRenameError('');
+              }}
+              onBlur={commitRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  commitRename();
+                } else if (e.key === 'Escape') {
+                  setConnectionDraft(null);
+                  setRenameError('');
+                }
+              }}
+            />
+            {renameError ? (
+              <div className="field-error">{renameError}</div>
+            ) : connectionDraft !== null && connectionDraft !== selectedNode!.connection && (
+              <div className="field-hint">Press Enter to rename; links to this node are updated</div>
+            )}
           </div>
           <div className="property-field">
             <label>GRPC:</label>
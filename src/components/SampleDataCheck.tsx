@@ -0,0 +1,115 @@
+import React, { useMemo, useState } from 'react';
+import { LogicalSchema, PhysicalSource } from '../types';
+import { checkCsvSample, DEFAULT_CSV_OPTIONS, describeValueCheck } from '../utils/csvSample';
+
+interface SampleDataCheckProps {
+  source: PhysicalSource;
+  // The source's logical schema; undefined when it is not declared
+  schema?: LogicalSchema;
+}
+
+const PREVIEW_ROWS = 20;
+const MAX_LISTED_PROBLEMS = 50;
+
+// Check a local sample of a CSV source's data against its schema and parser config
+const SampleDataCheck: React.FC<SampleDataCheckProps> = ({ source, schema }) => {
+  const [text, setText] = useState<string | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [skipHeader, setSkipHeader] = useState(false);
+
+  const fieldDelimiter = source.parserConfig.fieldDelimiter || DEFAULT_CSV_OPTIONS.fieldDelimiter;
+  const tupleDelimiter = source.parserConfig.tupleDelimiter || DEFAULT_CSV_OPTIONS.tupleDelimiter;
+  const fields = schema?.schema || [];
+
+  const result = useMemo(
+    () =>
+      text === null
+        ? null
+        : checkCsvSample(text, fields, { fieldDelimiter, tupleDelimiter, skipHeader }, PREVIEW_ROWS),
+    [text, fields, fieldDelimiter, tupleDelimiter, skipHeader]
+  );
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setText(await file.text());
+      setFileName(file.name);
+    } catch (error) {
+      alert(`Could not read ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  if (!schema) {
+    return <div className="empty-list">Declare the logical schema '{source.logical}' to check sample data</div>;
+  }
+
+  return (
+    <div className="sample-check">
+      <div className="property-field">
+        <label>Sample file:</label>
+        <input type="file" accept=".csv,.txt,text/csv,text/plain" onChange={handleFileChange} />
+      </div>
+      <label className="checkbox-field">
+        <input type="checkbox" checked={skipHeader} onChange={(e) => setSkipHeader(e.target.checked)} />
+        Skip the first line (header)
+      </label>
+
+      {result && (
+        <>
+          {result.problems.length === 0 ? (
+            <div className="sample-valid">
+              {fileName}: {result.rowCount} row{result.rowCount === 1 ? '' : 's'} match the schema
+            </div>
+          ) : (
+            <div className="error">
+              <div>
+                {fileName}: {result.problems.length} problem{result.problems.length === 1 ? '' : 's'} in{' '}
+                {result.rowCount} row{result.rowCount === 1 ? '' : 's'}
+              </div>
+              <ul className="sample-problems">
+                {result.problems.slice(0, MAX_LISTED_PROBLEMS).map((problem, index) => (
+                  <li key={index}>Line {problem.line}: {problem.message}</li>
+                ))}
+                {result.problems.length > MAX_LISTED_PROBLEMS && (
+                  <li>and {result.problems.length - MAX_LISTED_PROBLEMS} more</li>
+                )}
+              </ul>
+            </div>
+          )}
+
+          <div className="sample-preview">
+            <table>
+              <thead>
+                <tr>
+                  <th>Line</th>
+                  {fields.map(field => (
+                    <th key={field.name} title={describeValueCheck(field.type)}>
+                      {field.name}
+                      <div className="sample-type">{field.type}</div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {result.preview.map(row => (
+                  <tr key={row.line} className={row.error ? 'invalid' : ''} title={row.error || undefined}>
+                    <td className="sample-line">{row.line}</td>
+                    {row.cells.map((cell, column) => (
+                      <td key={column} className={cell.error ? 'invalid' : ''} title={cell.error || undefined}>
+                        {cell.value}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SampleDataCheck;
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { SatelliteRef } from '../utils/dataflow';
+
+interface SchemaRemovalDialogProps {
+  schemaName: string;
+  // Physical sources that use the schema
+  users: SatelliteRef[];
+  // Schemas the sources can be moved to
+  otherSchemas: string[];
+  onReassign: (replacement: string) => void;
+  onDeleteSources: () => void;
+  onCancel: () => void;
+}
+
+// Asks what to do with the sources of a logical schema that is being removed
+const SchemaRemovalDialog: React.FC<SchemaRemovalDialogProps> = ({
+  schemaName,
+  users,
+  otherSchemas,
+  onReassign,
+  onDeleteSources,
+  onCancel
+}) => {
+  const [replacement, setReplacement] = useState(otherSchemas[0] || '');
+
+  return (
+    <div className="modal" onClick={onCancel}>
+      <div className="modal-content schema-removal" onClick={(e) => e.stopPropagation()}>
+        <h3>Remove Schema '{schemaName}'</h3>
+        <p>
+          {users.length} physical source{users.length === 1 ? ' uses' : 's use'} this schema:
+        </p>
+        <ul className="schema-users">
+          {users.map(user => (
+            <li key={`${user.connection}-${user.index}`}>
+              {user.connection} <span className="item-type">source {user.index + 1}</span>
+            </li>
+          ))}
+        </ul>
+
+        {otherSchemas.length > 0 ? (
+          <div className="property-field">
+            <label>Reassign to:</label>
+            <select value={replacement} onChange={(e) => setReplacement(e.target.value)}>
+              {otherSchemas.map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          </div>
+        ) : (
+          <p className="empty-list">There is no other schema to reassign the sources to</p>
+        )}
+
+        <div className="controls">
+          <button onClick={() => onReassign(replacement)} disabled={!otherSchemas.length}>
+            Reassign Sources
+          </button>
+          <button onClick={onDeleteSources}>Delete Sources</button>
+          <button onClick={onCancel}>Cancel</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SchemaRemovalDialog;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { SavedSession } from '../utils/autosave';
+
+interface SessionRecoveryProps {
+  sessions: SavedSession[];
+  onRestore: (session: SavedSession) => void;
+  onDiscard: (id: string) => void;
+  onStartFresh: () => void;
+}
+
+const SessionRecovery: React.FC<SessionRecoveryProps> = ({ sessions, onRestore, onDiscard, onStartFresh }) => {
+  return (
+    <div className="modal">
+      <div className="modal-content session-recovery">
+        <h3>Restore a previous session?</h3>
+        <p>These sessions were saved automatically and can be restored or discarded.</p>
+        <ul>
+          {sessions.map(session => (
+            <li key={session.id}>
+              <div className="session-info">
+                <div className="session-name">{session.fileName}</div>
+                <div className="session-meta">
+                  {new Date(session.savedAt).toLocaleString()} · {session.nodeCount} node{session.nodeCount === 1 ? '' : 's'}
+                </div>
+              </div>
+              <button onClick={() => onRestore(session)}>Restore</button>
+              <button className="danger-button" onClick={() => onDiscard(session.id)}>Discard</button>
+            </li>
+          ))}
+        </ul>
+        <div className="controls">
+          <button onClick={onStartFresh}>Start with topology.yaml</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionRecovery;
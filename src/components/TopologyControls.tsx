@@ -1,17 +1,20 @@
 import React, { useState } from 'react';
 import { Node, Topology } from '../types';
+import {
+  buildEdges,
+  findLinkContradictions,
+  hasEdge,
+  normalizeLinks,
+  removeEdge,
+  TopologyEdge
+} from '../utils/links';
+import { deleteNode } from '../utils/topologyEdits';
 
 interface TopologyControlsProps {
   topology: Topology;
   onTopologyChange: (topology: Topology) => void;
 }
 
-interface LinkDisplayItem {
-  source: string;
-  target: string;
-  type: 'downstream' | 'upstream';
-}
-
 const TopologyControls: React.FC<TopologyControlsProps> = ({ topology, onTopologyChange }) => {
   const [showAddNode, setShowAddNode] = useState(false);
   const [showAddLink, setShowAddLink] = useState(false);
@@ -27,43 +30,10 @@ const TopologyControls: React.FC<TopologyControlsProps> = ({ topology, onTopolog
   const [newLinkTarget, setNewLinkTarget] = useState('');
   const [newLinkType, setNewLinkType] = useState<'downstream' | 'upstream'>('downstream');
 
-  // Generate a list of all links for display
-  const generateLinksList = (): LinkDisplayItem[] => {
-    const links: LinkDisplayItem[] = [];
-    
-    topology.nodes.forEach(node => {
-      // Add downstream links
-      if (node.links?.downstreams) {
-        node.links.downstreams.forEach(target => {
-          links.push({
-            source: node.connection,
-            target,
-            type: 'downstream'
-          });
-        });
-      }
-      
-      // Add upstream links (if they don't already exist as downstreams in the other direction)
-      if (node.links?.upstreams) {
-        node.links.upstreams.forEach(source => {
-          // Check if this link already exists as a downstream from the other direction
-          const existsAsDownstream = topology.nodes.some(
-            n => n.connection === source && 
-                 n.links?.downstreams?.includes(node.connection)
-          );
-          
-          if (!existsAsDownstream) {
-            links.push({
-              source,
-              target: node.connection,
-              type: 'upstream'
-            });
-          }
-        });
-      }
-    });
-    
-    return links;
+  // Describe how a link is declared in the YAML
+  const describeDeclaration = (edge: TopologyEdge): string => {
+    if (edge.declaredDownstream && edge.declaredUpstream) return 'both';
+    return edge.declaredDownstream ? 'downstream' : 'upstream';
   };
 
   // Function to check for port conflicts
@@ -161,6 +131,12 @@ const TopologyControls: React.FC<TopologyControlsProps> = ({ topology, onTopolog
       return;
     }
     
+    // A link may already be declared from the other end
+    if (hasEdge(topology, newLinkSource, newLinkTarget)) {
+      alert(`A link from ${newLinkSource} to ${newLinkTarget} already exists.`);
+      return;
+    }
+    
     // Create updated nodes array
     let updatedNodes = [...topology.nodes];
     
@@ -229,80 +205,30 @@ const TopologyControls: React.FC<TopologyControlsProps> = ({ topology, onTopolog
       return;
     }
 
-    // Remove the node
-    const updatedNodes = topology.nodes.filter(node => node.connection !== connection);
-    
-    // Update downstream references in other nodes
-    const cleanedNodes = updatedNodes.map(node => {
-      const updatedNode = { ...node };
-      
-      // Remove from downstreams
-      if (node.links?.downstreams?.includes(connection)) {
-        updatedNode.links = {
-          ...node.links,
-          downstreams: node.links.downstreams.filter(ds => ds !== connection)
-        };
-      }
-      
-      // Remove from upstreams
-      if (node.links?.upstreams?.includes(connection)) {
-        updatedNode.links = {
-          ...node.links,
-          upstreams: node.links.upstreams.filter(us => us !== connection)
-        };
-      }
-      
-      return updatedNode;
-    });
-
-    onTopologyChange({
-      ...topology,
-      nodes: cleanedNodes
-    });
+    // Remove the node and every link that refers to it
+    onTopologyChange(deleteNode(topology, connection));
   };
 
-  const handleDeleteLink = (source: string, target: string, type: 'downstream' | 'upstream') => {
+  const handleDeleteLink = (source: string, target: string) => {
     if (!window.confirm(`Are you sure you want to delete this link?`)) {
       return;
     }
 
-    // Update nodes based on link type
-    const updatedNodes = topology.nodes.map(node => {
-      if (type === 'downstream' && node.connection === source) {
-        // Remove from source node's downstreams
-        if (node.links?.downstreams) {
-          return {
-            ...node,
-            links: {
-              ...node.links,
-              downstreams: node.links.downstreams.filter(ds => ds !== target)
-            }
-          };
-        }
-      } 
-      else if (type === 'upstream' && node.connection === target) {
-        // Remove from target node's upstreams
-        if (node.links?.upstreams) {
-          return {
-            ...node,
-            links: {
-              ...node.links,
-              upstreams: node.links.upstreams.filter(us => us !== source)
-            }
-          };
-        }
-      }
-      return node;
-    });
+    // Removes both the downstream entry on the source and the upstream entry on the target
+    onTopologyChange(removeEdge(topology, source, target));
+  };
 
-    onTopologyChange({
-      ...topology,
-      nodes: updatedNodes
-    });
+  // Rewrite all links into downstream form
+  const handleNormalizeLinks = () => {
+    onTopologyChange(normalizeLinks(topology));
   };
 
   // Get all links for display
-  const linksList = generateLinksList();
+  const linksList = buildEdges(topology);
+  const contradictions = findLinkContradictions(linksList);
+  const isContradicting = (edge: TopologyEdge) =>
+    contradictions.some(c => c.nodes.includes(edge.source) && c.nodes.includes(edge.target));
+  const hasUpstreamDeclarations = topology.nodes.some(node => node.links?.upstreams?.length);
 
   return (
     <div className="topology-controls">
@@ -441,14 +367,28 @@ const TopologyControls: React.FC<TopologyControlsProps> = ({ topology, onTopolog
         
         <div className="links-list">
           <h4>Links</h4>
+          {contradictions.map(contradiction => (
+            <div key={contradiction.nodes.join('|')} className="warning-message">
+              {contradiction.message}
+            </div>
+          ))}
           <ul>
-            {linksList.map((link, index) => (
-              <li key={index} className={link.type}>
+            {linksList.map(link => (
+              <li
+                key={`${link.source}->${link.target}`}
+                className={`downstream ${isContradicting(link) ? 'contradiction' : ''}`}
+              >
                 {link.source} → {link.target}
-                <button onClick={() => handleDeleteLink(link.source, link.target, link.type)}>Delete</button>
+                <span className="link-type">{describeDeclaration(link)}</span>
+                <button onClick={() => handleDeleteLink(link.source, link.target)}>Delete</button>
               </li>
             ))}
           </ul>
+          {hasUpstreamDeclarations && (
+            <button className="normalize-button" onClick={handleNormalizeLinks}>
+              Normalize all links to downstream form
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -1,77 +1,88 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { load, dump } from 'js-yaml';
-import { Topology } from '../types';
+import { stringify } from 'yaml';
+import { Topology, TopologyLayout } from '../types';
+import { parseTopology, topologySchema, SchemaError } from '../utils/schemaValidation';
 
 interface TopologyEditorProps {
   topology: Topology;
   setTopology: (topology: Topology) => void;
+  // Name used for exported files
+  fileName?: string;
+  // Produces the exported file; defaults to the plain YAML shown in the editor
+  serialize?: (topology: Topology) => string;
+  // Called with the layout section of YAML applied from the editor
+  onLayoutLoaded?: (layout: TopologyLayout) => void;
 }
 
-const TopologyEditor: React.FC<TopologyEditorProps> = ({ topology, setTopology }) => {
+const TopologyEditor: React.FC<TopologyEditorProps> = ({
+  topology,
+  setTopology,
+  fileName = 'topology.yaml',
+  serialize = stringify,
+  onLayoutLoaded
+}) => {
   // Initialize from provided topology
-  const [yamlText, setYamlText] = useState<string>(dump(topology));
+  const [yamlText, setYamlText] = useState<string>(stringify(topology));
   const [error, setError] = useState<string>('');
+  const [schemaErrors, setSchemaErrors] = useState<SchemaError[]>([]);
   const [isValid, setIsValid] = useState<boolean>(true);
   const [typingTimer, setTypingTimer] = useState<number | null>(null);
   const [isDirty, setIsDirty] = useState<boolean>(false);
-  const lastValidYaml = useRef<string>(dump(topology));
+  const lastValidYaml = useRef<string>(stringify(topology));
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
-  // Function to validate YAML without updating topology
+  // Function to validate YAML against the topology schema without updating topology
   const validateYaml = useCallback((text: string): boolean => {
-    try {
-      const parsedYaml = load(text) as any;
-      
-      if (!parsedYaml.nodes) {
-        throw new Error('Invalid topology format. Must include nodes.');
-      }
-      
-      return true;
-    } catch (err) {
-      setError(`Error parsing YAML: ${err instanceof Error ? err.message : String(err)}`);
+    const { errors } = parseTopology(text);
+    setSchemaErrors(errors);
+
+    if (errors.length) {
+      setError(`Invalid topology: ${errors.length} problem${errors.length === 1 ? '' : 's'} found`);
       setIsValid(false);
       return false;
     }
+
+    return true;
   }, []);
 
   // Function to update topology after validation
   const updateTopology = useCallback((text: string) => {
-    try {
-      const parsedYaml = load(text) as any;
-      
-      if (!parsedYaml.nodes) {
-        throw new Error('Invalid topology format. Must include nodes.');
-      }
-      
-      // Create the topology 
-      const updatedTopology: Topology = {
-        logical: parsedYaml.logical,
-        nodes: parsedYaml.nodes
-      };
-      
-      setTopology(updatedTopology);
-      setError('');
-      setIsValid(true);
-      setIsDirty(false);
-      lastValidYaml.current = text;
-      return true;
-    } catch (err) {
+    const { topology: parsedTopology, layout } = parseTopology(text);
+    if (!parsedTopology) {
       // This should not happen since we already validated
-      console.error("Error updating topology:", err);
+      console.error("Error updating topology: YAML does not match the topology schema");
       return false;
     }
-  }, [setTopology]);
+
+    // Create the topology 
+    const updatedTopology: Topology = {
+      logical: parsedTopology.logical,
+      nodes: parsedTopology.nodes
+    };
+
+    if (layout) {
+      onLayoutLoaded?.(layout);
+    }
+    setTopology(updatedTopology);
+    setError('');
+    setSchemaErrors([]);
+    setIsValid(true);
+    setIsDirty(false);
+    lastValidYaml.current = text;
+    return true;
+  }, [setTopology, onLayoutLoaded]);
 
   // Update YAML when topology changes (e.g., from other components)
   useEffect(() => {
     // Only update if the editor doesn't have unsaved changes
     if (!isDirty) {
-      const newYamlText = dump(topology);
+      const newYamlText = stringify(topology);
       if (newYamlText !== yamlText) {
         setYamlText(newYamlText);
         lastValidYaml.current = newYamlText;
         setIsValid(true);
         setError('');
+        setSchemaErrors([]);
       }
     }
   }, [topology, yamlText, isDirty]);
@@ -86,7 +97,7 @@ const TopologyEditor: React.FC<TopologyEditorProps> = ({ topology, setTopology }
   // Handle export function
   const handleExport = () => {
     try {
-      const yamlString = dump(topology);
+      const yamlString = stringify(topology);
       setYamlText(yamlString);
       setError('');
       setIsValid(true);
@@ -94,11 +105,11 @@ const TopologyEditor: React.FC<TopologyEditorProps> = ({ topology, setTopology }
       lastValidYaml.current = yamlString;
       
       // Create download link
-      const blob = new Blob([yamlString], { type: 'text/yaml' });
+      const blob = new Blob([serialize(topology)], { type: 'text/yaml' });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = 'topology.yaml';
+      a.download = fileName;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -109,14 +120,41 @@ const TopologyEditor: React.FC<TopologyEditorProps> = ({ topology, setTopology }
     }
   };
 
+  // Download the JSON Schema the editor validates against, e.g. for linting in CI
+  const handleDownloadSchema = () => {
+    const blob = new Blob([JSON.stringify(topologySchema, null, 2)], { type: 'application/schema+json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'topology.schema.json';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
   // Reset to last valid YAML
   const handleReset = () => {
     setYamlText(lastValidYaml.current);
     setIsValid(true);
     setError('');
+    setSchemaErrors([]);
     setIsDirty(false);
   };
 
+  // Move the cursor to the position of a schema error
+  const handleJumpToError = (schemaError: SchemaError) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    textarea.focus();
+    textarea.setSelectionRange(schemaError.offset, schemaError.offset);
+
+    // Scroll the error line into view
+    const lineHeight = textarea.scrollHeight / Math.max(yamlText.split('\n').length, 1);
+    textarea.scrollTop = Math.max(0, (schemaError.line - 3) * lineHeight);
+  };
+
   // Handle text changes with debouncing
   const handleTextChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     const newText = e.target.value;
@@ -144,6 +182,7 @@ const TopologyEditor: React.FC<TopologyEditorProps> = ({ topology, setTopology }
       if (validateYaml(newText)) {
         setIsValid(true);
         setError('');
+        setSchemaErrors([]);
         // If valid, update the topology
         updateTopology(newText);
       }
@@ -158,13 +197,30 @@ const TopologyEditor: React.FC<TopologyEditorProps> = ({ topology, setTopology }
         <div className="controls">
           <button onClick={handleImport}>Import YAML</button>
           <button onClick={handleExport}>Export YAML</button>
+          <button onClick={handleDownloadSchema}>Download Schema</button>
           {!isValid && <button onClick={handleReset}>Reset to Valid YAML</button>}
         </div>
         <div className={`yaml-status ${isValid ? 'valid' : 'invalid'}`}>
           {isValid ? (isDirty ? 'Valid YAML (Unsaved) ✓' : 'Valid YAML ✓') : 'Invalid YAML ✗'}
         </div>
       </div>
-      {error && <div className="error">{error}</div>}
+      {error && (
+        <div className="error">
+          {error}
+          {schemaErrors.length > 0 && (
+            <ul className="schema-errors">
+              {schemaErrors.map((schemaError, index) => (
+                <li key={index} onClick={() => handleJumpToError(schemaError)}>
+                  <span className="schema-error-position">
+                    Line {schemaError.line}, column {schemaError.column}:
+                  </span>{' '}
+                  {schemaError.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
       <textarea
         ref={textareaRef}
         value={yamlText}
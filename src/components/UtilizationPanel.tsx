@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { formatUtilization, NodeUtilization, UtilizationWeights } from '../utils/utilization';
+
+interface UtilizationPanelProps {
+  utilization: NodeUtilization[];
+  weights: UtilizationWeights;
+  onWeightsChange: (weights: UtilizationWeights) => void;
+  onSelectNode: (connection: string) => void;
+}
+
+type SortKey = 'connection' | 'physical' | 'sinks' | 'upstreams' | 'load' | 'capacity' | 'utilization';
+
+const COLUMNS: Array<{ key: SortKey; label: string; title?: string }> = [
+  { key: 'connection', label: 'Node' },
+  { key: 'physical', label: 'Src', title: 'Physical sources hosted' },
+  { key: 'sinks', label: 'Sinks', title: 'Sinks hosted' },
+  { key: 'upstreams', label: 'Up', title: 'Direct upstream links into this node' },
+  { key: 'load', label: 'Load' },
+  { key: 'capacity', label: 'Cap', title: 'Capacity' },
+  { key: 'utilization', label: 'Use', title: 'Load as a share of capacity' }
+];
+
+const WEIGHT_FIELDS: Array<{ key: keyof UtilizationWeights; label: string }> = [
+  { key: 'physical', label: 'Physical source' },
+  { key: 'sinks', label: 'Sink' },
+  { key: 'upstreams', label: 'Upstream link' }
+];
+
+// Load of every node against its capacity, sortable by any column
+const UtilizationPanel: React.FC<UtilizationPanelProps> = ({ utilization, weights, onWeightsChange, onSelectNode }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('utilization');
+  const [descending, setDescending] = useState(true);
+
+  // Clicking the sorted column flips the order; other columns start with the largest values
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setDescending(!descending);
+    } else {
+      setSortKey(key);
+      setDescending(key !== 'connection');
+    }
+  };
+
+  const rows = [...utilization].sort((a, b) => {
+    const order =
+      sortKey === 'connection' ? a.connection.localeCompare(b.connection) : a[sortKey] - b[sortKey];
+    // Infinity - Infinity is NaN; those rows are equal
+    return (descending ? -order : order) || 0;
+  });
+  const overloadedCount = utilization.filter(entry => entry.overloaded).length;
+
+  return (
+    <div className="utilization-panel">
+      <h2>Capacity</h2>
+      <div className="problems-summary">
+        {overloadedCount === 0
+          ? 'No node is over capacity'
+          : `${overloadedCount} node${overloadedCount === 1 ? '' : 's'} over capacity`}
+      </div>
+
+      <div className="property-section">
+        <h4>Load per item:</h4>
+        {WEIGHT_FIELDS.map(({ key, label }) => (
+          <div className="property-field" key={key}>
+            <label>{label}:</label>
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={weights[key]}
+              onChange={(e) => onWeightsChange({ ...weights, [key]: Math.max(0, Number(e.target.value)) })}
+            />
+          </div>
+        ))}
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="empty-list">No nodes</div>
+      ) : (
+        <table className="utilization-table">
+          <thead>
+            <tr>
+              {COLUMNS.map(column => (
+                <th key={column.key} title={column.title} onClick={() => handleSort(column.key)}>
+                  {column.label}
+                  {column.key === sortKey && (descending ? ' ▼' : ' ▲')}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(entry => (
+              <tr
+                key={entry.connection}
+                className={entry.overloaded ? 'overloaded' : ''}
+                onClick={() => onSelectNode(entry.connection)}
+                title="Click to select"
+              >
+                <td className="utilization-node">{entry.connection}</td>
+                <td>{entry.physical}</td>
+                <td>{entry.sinks}</td>
+                <td>{entry.upstreams}</td>
+                <td>{entry.load}</td>
+                <td>{entry.capacity}</td>
+                <td>{formatUtilization(entry.utilization)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default UtilizationPanel;
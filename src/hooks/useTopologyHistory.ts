@@ -0,0 +1,122 @@
+import { useCallback, useRef, useState } from 'react';
+import { Topology, NodeSelection } from '../types';
+
+// A node whose connection was changed by an edit
+export interface NodeRename {
+  from: string;
+  to: string;
+}
+
+// A snapshot of the editor state that can be restored by undo/redo
+export interface HistoryEntry {
+  topology: Topology;
+  selection: NodeSelection;
+  // Node renamed by the step between this entry and the present topology,
+  // in the direction from the older to the newer state
+  rename?: NodeRename;
+}
+
+export interface CommitOptions {
+  // Consecutive commits with the same group key are merged into one undo step
+  group?: string;
+  // The commit renames a node, so undo and redo can rename it back and forth
+  rename?: NodeRename;
+}
+
+interface HistoryState {
+  past: HistoryEntry[];
+  present: Topology;
+  future: HistoryEntry[];
+}
+
+// Maximum number of undo steps that are kept
+const MAX_HISTORY = 100;
+// Edits of the same group further apart than this start a new undo step
+const GROUP_TIMEOUT_MS = 1000;
+
+export const useTopologyHistory = (initial: Topology, selection: NodeSelection) => {
+  const [state, setState] = useState<HistoryState>({
+    past: [],
+    present: initial,
+    future: []
+  });
+
+  // Refs keep undo/redo synchronous, so two quick key presses never act on stale state
+  const stateRef = useRef(state);
+  const selectionRef = useRef(selection);
+  selectionRef.current = selection;
+  const lastGroup = useRef<{ key: string; time: number } | null>(null);
+
+  const update = useCallback((next: HistoryState) => {
+    stateRef.current = next;
+    setState(next);
+  }, []);
+
+  // Record a new topology, pushing the current one onto the undo stack
+  const setTopology = useCallback((topology: Topology, options: CommitOptions = {}) => {
+    const { past, present } = stateRef.current;
+    const now = Date.now();
+    const previousGroup = lastGroup.current;
+    const merge =
+      options.group !== undefined &&
+      previousGroup !== null &&
+      previousGroup.key === options.group &&
+      now - previousGroup.time < GROUP_TIMEOUT_MS;
+
+    lastGroup.current = options.group !== undefined ? { key: options.group, time: now } : null;
+
+    update({
+      past: merge
+        ? past
+        : [...past, { topology: present, selection: selectionRef.current, rename: options.rename }].slice(-MAX_HISTORY),
+      present: topology,
+      future: []
+    });
+  }, [update]);
+
+  // Replace the topology and forget all history (e.g. when a new file is loaded)
+  const resetTopology = useCallback((topology: Topology) => {
+    lastGroup.current = null;
+    update({ past: [], present: topology, future: [] });
+  }, [update]);
+
+  // Step back; returns the restored entry so the caller can restore its selection
+  const undo = useCallback((): HistoryEntry | null => {
+    const { past, present, future } = stateRef.current;
+    if (!past.length) return null;
+
+    const entry = past[past.length - 1];
+    lastGroup.current = null;
+    update({
+      past: past.slice(0, -1),
+      present: entry.topology,
+      future: [{ topology: present, selection: selectionRef.current, rename: entry.rename }, ...future]
+    });
+    return entry;
+  }, [update]);
+
+  // Step forward again; returns the restored entry like undo
+  const redo = useCallback((): HistoryEntry | null => {
+    const { past, present, future } = stateRef.current;
+    if (!future.length) return null;
+
+    const entry = future[0];
+    lastGroup.current = null;
+    update({
+      past: [...past, { topology: present, selection: selectionRef.current, rename: entry.rename }],
+      present: entry.topology,
+      future: future.slice(1)
+    });
+    return entry;
+  }, [update]);
+
+  return {
+    topology: state.present,
+    setTopology,
+    resetTopology,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0
+  };
+};
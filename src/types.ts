@@ -42,6 +42,46 @@ export interface SchemaField {
   type: string;
 }
 
+// A data type the engine supports for schema fields
+export interface DataTypeDefinition {
+  type: string;
+  description: string;
+}
+
+// All field types supported by NebulaStream, in the order the editor lists them
+export const DATA_TYPES: DataTypeDefinition[] = [
+  { type: "INT8", description: "8-bit signed integer" },
+  { type: "INT16", description: "16-bit signed integer" },
+  { type: "INT32", description: "32-bit signed integer" },
+  { type: "INT64", description: "64-bit signed integer" },
+  { type: "UINT8", description: "8-bit unsigned integer" },
+  { type: "UINT16", description: "16-bit unsigned integer" },
+  { type: "UINT32", description: "32-bit unsigned integer" },
+  { type: "UINT64", description: "64-bit unsigned integer" },
+  { type: "FLOAT32", description: "Single-precision floating point" },
+  { type: "FLOAT64", description: "Double-precision floating point" },
+  { type: "BOOLEAN", description: "True or false" },
+  { type: "CHAR", description: "Single character" },
+  { type: "VARSIZED", description: "Variable-sized text" },
+];
+
+export const DEFAULT_DATA_TYPE = "UINT64";
+
+// Names offered by earlier versions of the editor, kept as aliases so existing
+// topologies stay valid
+export const LEGACY_DATA_TYPES: { [alias: string]: string } = {
+  DOUBLE: "FLOAT64",
+  STRING: "VARSIZED",
+};
+
+// The catalogue type a field type stands for, resolving legacy aliases
+export const canonicalDataType = (type: string) => LEGACY_DATA_TYPES[type] ?? type;
+
+export const findDataType = (type: string) =>
+  DATA_TYPES.find((dataType) => dataType.type === canonicalDataType(type));
+
+export const isDataType = (type: string) => findDataType(type) !== undefined;
+
 export interface LogicalSchema {
   name: string;
   schema: SchemaField[];
@@ -52,6 +92,40 @@ export interface Topology {
   nodes: Node[];
 }
 
+export interface LayoutPosition {
+  x: number;
+  y: number;
+}
+
+// Saved graph position of a main node and its satellites (by array index)
+export interface NodeLayout extends LayoutPosition {
+  physical?: LayoutPosition[];
+  sinks?: LayoutPosition[];
+}
+
+// Optional `layout` section of a topology file, keyed by node connection.
+// Only the editor reads it; it is kept out of the Topology state.
+export interface TopologyLayout {
+  [connection: string]: NodeLayout;
+}
+
+// A topology as stored in a YAML file
+export interface TopologyDocument extends Topology {
+  layout?: TopologyLayout;
+}
+
+// Graph layout positions keyed by graph node id (connection, or satellite id
+// such as "127.0.0.1:9090-sink-0")
+export interface NodePositions {
+  [id: string]: { x: number; y: number };
+}
+
+// A selected link between two main nodes; data flows from source to target
+export type EdgeSelection = { source: string; target: string } | null;
+
+// How the graph positions nodes: a force simulation or layers along the links
+export type LayoutMode = "force" | "layered";
+
 // Define a union type for all node types in the selection
 export type NodeSelection =
   | { type: "main"; nodeId: string }
@@ -0,0 +1,51 @@
+import { NodePositions, NodeSelection, Topology } from '../types';
+
+// Editor state saved to local storage so it survives reloads and crashes
+export interface SavedSession {
+  id: string;
+  savedAt: number;
+  fileName: string;
+  nodeCount: number;
+  topology: Topology;
+  selection: NodeSelection;
+  activeTab: string;
+  positions: NodePositions;
+}
+
+const STORAGE_KEY = 'topology-editor.sessions';
+// Number of recent sessions that are kept
+const MAX_SESSIONS = 5;
+
+export const createSessionId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Recent sessions, newest first
+export const loadSessions = (): SavedSession[] => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    const sessions = stored ? (JSON.parse(stored) as SavedSession[]) : [];
+    return Array.isArray(sessions) ? sessions.filter(session => session && session.topology?.nodes) : [];
+  } catch (error) {
+    console.warn('Could not read saved sessions:', error);
+    return [];
+  }
+};
+
+const storeSessions = (sessions: SavedSession[]) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+  } catch (error) {
+    // Storage can be full or disabled; autosave is best effort
+    console.warn('Could not autosave session:', error);
+  }
+};
+
+// Insert or update a session and drop the oldest beyond the limit
+export const saveSession = (session: SavedSession) => {
+  const others = loadSessions().filter(existing => existing.id !== session.id);
+  storeSessions([session, ...others].sort((a, b) => b.savedAt - a.savedAt).slice(0, MAX_SESSIONS));
+};
+
+export const discardSession = (id: string) => {
+  storeSessions(loadSessions().filter(session => session.id !== id));
+};
@@ -0,0 +1,204 @@
+import { canonicalDataType, isDataType, SchemaField } from '../types';
+
+// Whether the first row of a sample names the columns; 'auto' guesses from the values
+export type HeaderMode = 'auto' | 'yes' | 'no';
+
+export interface CsvSampleOptions {
+  fieldDelimiter: string;
+  tupleDelimiter: string;
+  header: HeaderMode;
+}
+
+export const DEFAULT_CSV_OPTIONS: CsvSampleOptions = {
+  fieldDelimiter: ',',
+  tupleDelimiter: '\n',
+  header: 'auto'
+};
+
+// Fields proposed for a sample, and whether its first row was taken as the header
+export interface InferredSchema {
+  fields: SchemaField[];
+  hasHeader: boolean;
+  rowCount: number;
+}
+
+const UNSIGNED_PATTERN = /^\+?\d+$/;
+const SIGNED_PATTERN = /^[+-]?\d+$/;
+const FLOAT_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+const BOOLEAN_PATTERN = /^(true|false)$/i;
+
+// Split a sample into rows of trimmed values the way the CSV parser does, without
+// quoting. Blank rows are skipped; "\r\n" line ends count as "\n".
+export const splitCsvRows = (text: string, fieldDelimiter: string, tupleDelimiter: string): string[][] => {
+  const normalized = tupleDelimiter === '\n' ? text.replace(/\r\n/g, '\n') : text;
+  return normalized
+    .split(tupleDelimiter)
+    .filter(row => row.trim() !== '')
+    .map(row => row.split(fieldDelimiter).map(value => value.trim()));
+};
+
+const isTyped = (value: string) => FLOAT_PATTERN.test(value) || BOOLEAN_PATTERN.test(value);
+
+// The narrowest of the inferred types that fits every non-empty value
+export const inferFieldType = (values: string[]): string => {
+  const present = values.filter(value => value !== '');
+  if (present.length === 0) return 'VARSIZED';
+  if (present.every(value => UNSIGNED_PATTERN.test(value))) return 'UINT64';
+  if (present.every(value => SIGNED_PATTERN.test(value))) return 'INT64';
+  if (present.every(value => FLOAT_PATTERN.test(value))) return 'FLOAT64';
+  if (present.every(value => BOOLEAN_PATTERN.test(value))) return 'BOOLEAN';
+  return 'VARSIZED';
+};
+
+// A first row is a header when none of its values look like data, and the
+// rows below it have numbers or booleans in at least one of those columns
+const looksLikeHeader = (rows: string[][]): boolean => {
+  const [first, ...rest] = rows;
+  if (!first || first.some(value => value === '' || isTyped(value))) return false;
+  if (rest.length === 0) return true;
+  return first.some((_, column) => inferFieldType(rest.map(row => row[column] ?? '')) !== 'VARSIZED');
+};
+
+// Turn text such as a header value or file name into letters, digits and
+// underscores, not starting with a digit. Empty when nothing usable is left.
+export const toIdentifier = (text: string): string => {
+  const name = text.replace(/[^A-Za-z0-9_]+/g, '_').replace(/^_+|_+$/g, '');
+  return /^\d/.test(name) ? `_${name}` : name;
+};
+
+// Propose schema fields for a CSV sample. Columns are named after the header,
+// or field1, field2, ... without one.
+export const inferSchemaFromCsv = (text: string, options: CsvSampleOptions): InferredSchema => {
+  const rows = splitCsvRows(text, options.fieldDelimiter, options.tupleDelimiter);
+  const hasHeader = options.header === 'auto' ? looksLikeHeader(rows) : options.header === 'yes' && rows.length > 0;
+  const [headerRow, dataRows] = hasHeader ? [rows[0], rows.slice(1)] : [[], rows];
+  const columnCount = Math.max(0, ...rows.map(row => row.length));
+
+  const used = new Set<string>();
+  const fields = Array.from({ length: columnCount }, (_, column) => {
+    const base = toIdentifier(headerRow[column] ?? '') || `field${column + 1}`;
+    let name = base;
+    for (let counter = 2; used.has(name); counter++) {
+      name = `${base}_${counter}`;
+    }
+    used.add(name);
+
+    return { name, type: inferFieldType(dataRows.map(row => row[column] ?? '')) };
+  });
+
+  return { fields, hasHeader, rowCount: dataRows.length };
+};
+
+// Smallest and largest value of each integer type
+const INTEGER_RANGES: { [type: string]: [bigint, bigint] } = {
+  INT8: [-(2n ** 7n), 2n ** 7n - 1n],
+  INT16: [-(2n ** 15n), 2n ** 15n - 1n],
+  INT32: [-(2n ** 31n), 2n ** 31n - 1n],
+  INT64: [-(2n ** 63n), 2n ** 63n - 1n],
+  UINT8: [0n, 2n ** 8n - 1n],
+  UINT16: [0n, 2n ** 16n - 1n],
+  UINT32: [0n, 2n ** 32n - 1n],
+  UINT64: [0n, 2n ** 64n - 1n]
+};
+
+// Explain why the parser would reject `value` for a field of `type`, or return
+// null. Legacy aliases are checked as the type they stand for: DOUBLE as FLOAT64
+// and STRING as VARSIZED. VARSIZED accepts any text, including an empty value.
+// Types outside the catalogue are reported by the schema checks and their
+// values are not checked.
+export const checkValue = (value: string, fieldType: string): string | null => {
+  const type = canonicalDataType(fieldType);
+  const range = INTEGER_RANGES[type];
+  if (range) {
+    if (!SIGNED_PATTERN.test(value)) return `'${value}' is not an integer`;
+    const number = BigInt(value);
+    return number < range[0] || number > range[1] ? `${value} is out of range for ${type}` : null;
+  }
+
+  switch (type) {
+    case 'FLOAT32':
+    case 'FLOAT64':
+      return FLOAT_PATTERN.test(value) ? null : `'${value}' is not a number`;
+    case 'BOOLEAN':
+      return BOOLEAN_PATTERN.test(value) || value === '0' || value === '1' ? null : `'${value}' is not a boolean`;
+    case 'CHAR':
+      return value.length === 1 ? null : `'${value}' is not a single character`;
+    case 'VARSIZED':
+      // Any text is a valid variable-sized value
+      return null;
+    default:
+      // Unknown types are reported by the schema checks instead
+      return null;
+  }
+};
+
+// How values of a field type are checked, for the preview header
+export const describeValueCheck = (type: string): string =>
+  !isDataType(type)
+    ? 'Unknown type, values are not checked'
+    : canonicalDataType(type) === 'VARSIZED'
+      ? 'Any text is accepted'
+      : `Values must parse as ${canonicalDataType(type)}`;
+
+// A sample row as the parser splits it; `error` is set for rows that cannot be parsed as a whole
+export interface CheckedRow {
+  line: number;
+  cells: Array<{ value: string; error: string | null }>;
+  error: string | null;
+}
+
+export interface SampleCheck {
+  // The first rows of the sample, for the preview
+  preview: CheckedRow[];
+  // Every problem found, by line number starting at 1
+  problems: Array<{ line: number; message: string }>;
+  rowCount: number;
+}
+
+// Parse a sample with a CSV parser config and check every row against the
+// schema fields: the column count, each value's type and empty lines
+export const checkCsvSample = (
+  text: string,
+  fields: SchemaField[],
+  options: Omit<CsvSampleOptions, 'header'> & { skipHeader: boolean },
+  previewRows: number
+): SampleCheck => {
+  const normalized = options.tupleDelimiter === '\n' ? text.replace(/\r\n/g, '\n') : text;
+  const lines = normalized.split(options.tupleDelimiter);
+  // A delimiter after the last row does not start another one
+  if (lines.length && lines[lines.length - 1] === '') lines.pop();
+
+  const preview: CheckedRow[] = [];
+  const problems: SampleCheck['problems'] = [];
+  let rowCount = 0;
+
+  lines.forEach((content, index) => {
+    const line = index + 1;
+    if (options.skipHeader && index === 0) return;
+    rowCount++;
+
+    let row: CheckedRow;
+    if (content.trim() === '') {
+      row = { line, cells: [], error: 'Empty line' };
+    } else {
+      const values = content.split(options.fieldDelimiter).map(value => value.trim());
+      const cells = values.map((value, column) => {
+        const field = fields[column];
+        return { value, error: field ? checkValue(value, field.type) : null };
+      });
+      const error =
+        values.length !== fields.length
+          ? `Expected ${fields.length} value${fields.length === 1 ? '' : 's'}, found ${values.length}`
+          : null;
+      row = { line, cells, error };
+    }
+
+    if (row.error) problems.push({ line, message: row.error });
+    row.cells.forEach((cell, column) => {
+      if (cell.error) problems.push({ line, message: `${fields[column].name}: ${cell.error}` });
+    });
+    if (preview.length < previewRows) preview.push(row);
+  });
+
+  return { preview, problems, rowCount };
+};
@@ -0,0 +1,125 @@
+import { Topology } from '../types';
+import { buildEdges, edgeKey, TopologyEdge } from './links';
+
+// A physical source or sink, by its host node and index
+export interface SatelliteRef {
+  connection: string;
+  index: number;
+  // Logical stream of a source, or name of a sink
+  name: string;
+}
+
+// Where data can flow from a source, or where the data reaching a sink comes from
+export interface DataflowTrace {
+  // Graph ids of the main nodes on the paths and of the traced sources and sinks
+  nodeIds: Set<string>;
+  // Links on the paths, by edgeKey
+  edgeKeys: Set<string>;
+  // Sinks reached from a traced source, or sources reaching a traced sink
+  endpoints: SatelliteRef[];
+}
+
+const physicalId = (connection: string, index: number) => `${connection}-physical-${index}`;
+const sinkId = (connection: string, index: number) => `${connection}-sink-${index}`;
+
+// Every node reachable from `starts` along the links, including the starts
+const reachable = (starts: string[], next: Map<string, string[]>): Set<string> => {
+  const visited = new Set(starts);
+  const queue = [...starts];
+  while (queue.length) {
+    const current = queue.shift()!;
+    (next.get(current) || []).forEach(other => {
+      if (!visited.has(other)) {
+        visited.add(other);
+        queue.push(other);
+      }
+    });
+  }
+  return visited;
+};
+
+const adjacency = (edges: TopologyEdge[], reverse: boolean) => {
+  const next = new Map<string, string[]>();
+  edges.forEach(({ source, target }) => {
+    const [from, to] = reverse ? [target, source] : [source, target];
+    if (!next.has(from)) next.set(from, []);
+    next.get(from)!.push(to);
+  });
+  return next;
+};
+
+// Nodes that host a sink or can forward their data to one
+export const findNodesReachingSinks = (topology: Topology, edges: TopologyEdge[] = buildEdges(topology)) =>
+  reachable(
+    topology.nodes.filter(node => node.sinks && node.sinks.length > 0).map(node => node.connection),
+    adjacency(edges, true)
+  );
+
+// Nodes and links that lie on a path from one of `from` to one of `to`
+const pathsBetween = (from: string[], to: string[], edges: TopologyEdge[]) => {
+  const forward = reachable(from, adjacency(edges, false));
+  const backward = reachable(to, adjacency(edges, true));
+  const nodes = new Set(Array.from(forward).filter(connection => backward.has(connection)));
+  const links = edges.filter(edge => nodes.has(edge.source) && nodes.has(edge.target));
+  return { nodes, edgeKeys: new Set(links.map(edge => edgeKey(edge.source, edge.target))) };
+};
+
+// Every path from a source's host node to nodes carrying sinks, and the sinks reached
+export const traceFromSource = (topology: Topology, connection: string, index: number): DataflowTrace => {
+  const edges = buildEdges(topology);
+  const sinkHosts = topology.nodes.filter(node => node.sinks && node.sinks.length > 0).map(node => node.connection);
+  const { nodes, edgeKeys } = pathsBetween([connection], sinkHosts, edges);
+
+  const endpoints: SatelliteRef[] = [];
+  topology.nodes.forEach(node => {
+    if (!nodes.has(node.connection)) return;
+    node.sinks?.forEach((sink, sinkIndex) => {
+      endpoints.push({ connection: node.connection, index: sinkIndex, name: sink.name });
+    });
+  });
+
+  return {
+    nodeIds: new Set([
+      ...nodes,
+      physicalId(connection, index),
+      ...endpoints.map(sink => sinkId(sink.connection, sink.index))
+    ]),
+    edgeKeys,
+    endpoints
+  };
+};
+
+// Every path from nodes with physical sources to a sink's host, and the sources that reach it
+export const traceToSink = (topology: Topology, connection: string, index: number): DataflowTrace => {
+  const edges = buildEdges(topology);
+  const sourceHosts = topology.nodes.filter(node => node.physical && node.physical.length > 0).map(node => node.connection);
+  const { nodes, edgeKeys } = pathsBetween(sourceHosts, [connection], edges);
+
+  const endpoints: SatelliteRef[] = [];
+  topology.nodes.forEach(node => {
+    if (!nodes.has(node.connection)) return;
+    node.physical?.forEach((source, sourceIndex) => {
+      endpoints.push({ connection: node.connection, index: sourceIndex, name: source.logical });
+    });
+  });
+
+  return {
+    nodeIds: new Set([
+      ...nodes,
+      sinkId(connection, index),
+      ...endpoints.map(source => physicalId(source.connection, source.index))
+    ]),
+    edgeKeys,
+    endpoints
+  };
+};
+
+// Sources grouped by logical stream, in order of first appearance
+export const groupByStream = (sources: SatelliteRef[]): Map<string, SatelliteRef[]> => {
+  const groups = new Map<string, SatelliteRef[]>();
+  sources.forEach(source => {
+    if (!groups.has(source.name)) groups.set(source.name, []);
+    groups.get(source.name)!.push(source);
+  });
+  return groups;
+};
@@ -0,0 +1,224 @@
+export type ImageFormat = 'svg' | 'png';
+
+export interface ImageExportOptions {
+  background: 'transparent' | 'white';
+  // Leave out physical sources, sinks and their links
+  hideSatellites: boolean;
+  // Add a legend mapping colours to logical schemas
+  legend: boolean;
+}
+
+// A colour in the legend; `fill` may refer to a pattern in the graph's defs
+export interface LegendEntry {
+  label: string;
+  fill: string;
+}
+
+// A standalone SVG document and its size in pixels
+export interface ExportedSvg {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const PADDING = 20;
+const LEGEND_ROW_HEIGHT = 20;
+
+// Properties copied from the page's computed styles, so the image looks the
+// same without the page CSS
+const STYLE_PROPERTIES = [
+  'fill',
+  'fill-opacity',
+  'stroke',
+  'stroke-width',
+  'stroke-opacity',
+  'stroke-dasharray',
+  'opacity',
+  'font-family',
+  'font-size',
+  'font-weight',
+  'text-anchor',
+  'text-shadow'
+];
+
+// Highlights of the current interaction, which are not part of the diagram.
+// Items hidden by the search filter are exported too.
+const INTERACTION_CLASSES = [
+  'selected',
+  'search-match',
+  'search-current',
+  'search-dimmed',
+  'search-hidden',
+  'trace-path',
+  'trace-dimmed',
+  'dragging'
+];
+
+// Editing aids that are never exported
+const EDITOR_ONLY = '.link-hits, .link-preview, .drop-target, .selection-band, title';
+
+const SATELLITES = '.node.physical, .node.sink, .link.physical, .link.sink';
+
+// Copy the computed styles of `original` and its descendants onto `copy`, a
+// clone of it, and drop copies of elements that are not displayed
+const inlineStyles = (original: Element, copy: Element) => {
+  const originals = [original, ...Array.from(original.querySelectorAll('*'))];
+  const copies = [copy, ...Array.from(copy.querySelectorAll('*'))];
+  const hidden: Element[] = [];
+
+  originals.forEach((element, index) => {
+    const computed = getComputedStyle(element);
+    if (computed.display === 'none') {
+      hidden.push(copies[index]);
+      return;
+    }
+
+    const style = STYLE_PROPERTIES.map(property => [property, computed.getPropertyValue(property)])
+      // Pattern fills stay as attributes; computed url() values may be absolute page URLs
+      .filter(([, value]) => value && !value.startsWith('url('))
+      .map(([property, value]) => `${property}: ${value}`)
+      .join('; ');
+    copies[index].setAttribute('style', style);
+  });
+
+  hidden.forEach(element => element.remove());
+};
+
+const appendLegend = (parent: SVGGElement, entries: LegendEntry[], x: number, y: number, textColor: string) => {
+  const legend = document.createElementNS(SVG_NS, 'g');
+  legend.setAttribute('transform', `translate(${x},${y})`);
+  legend.setAttribute('style', `font-family: sans-serif; font-size: 12px; fill: ${textColor}`);
+
+  const title = document.createElementNS(SVG_NS, 'text');
+  title.setAttribute('y', '12');
+  title.setAttribute('style', 'font-weight: bold');
+  title.textContent = 'Logical schemas';
+  legend.appendChild(title);
+
+  entries.forEach((entry, index) => {
+    const rowY = (index + 1) * LEGEND_ROW_HEIGHT + 8;
+    const swatch = document.createElementNS(SVG_NS, 'circle');
+    swatch.setAttribute('cx', '7');
+    swatch.setAttribute('cy', String(rowY));
+    swatch.setAttribute('r', '7');
+    swatch.setAttribute('fill', entry.fill);
+    swatch.setAttribute('stroke', '#fff');
+
+    const label = document.createElementNS(SVG_NS, 'text');
+    label.setAttribute('x', '20');
+    label.setAttribute('y', String(rowY + 4));
+    label.textContent = entry.label;
+
+    legend.append(swatch, label);
+  });
+  parent.appendChild(legend);
+};
+
+// Serialize the graph drawn in `svg` as a standalone SVG cropped to its
+// content, with styles inlined and the markers and patterns it uses
+export const serializeGraphSvg = (
+  svg: SVGSVGElement,
+  options: ImageExportOptions,
+  legend: LegendEntry[]
+): ExportedSvg => {
+  const content = svg.querySelector<SVGGElement>('g.graph-content');
+  if (!content) {
+    throw new Error('The graph has not been drawn yet');
+  }
+
+  const highlighted = INTERACTION_CLASSES.flatMap(name =>
+    Array.from(content.querySelectorAll(`.${name}`)).map(element => ({ element, name }))
+  );
+  highlighted.forEach(({ element, name }) => element.classList.remove(name));
+  // Cloned without the highlights, so page CSS does not hide filtered items while the copy is measured
+  const copy = content.cloneNode(true) as SVGGElement;
+  try {
+    inlineStyles(content, copy);
+  } finally {
+    highlighted.forEach(({ element, name }) => element.classList.add(name));
+  }
+
+  copy.removeAttribute('transform');
+  copy.querySelectorAll(EDITOR_ONLY).forEach(element => element.remove());
+  if (options.hideSatellites) {
+    copy.querySelectorAll(SATELLITES).forEach(element => element.remove());
+  }
+  // Satellite labels are drawn beside their node, so they need to stand out on white
+  if (options.background === 'white') {
+    copy.querySelectorAll<SVGTextElement>('.node.physical text, .node.sink text').forEach(text => {
+      text.style.fill = '#222';
+      text.style.textShadow = 'none';
+    });
+  }
+
+  // Measure the copy inside the page's SVG, where it has the same coordinates
+  svg.appendChild(copy);
+  const box = copy.getBBox();
+  svg.removeChild(copy);
+
+  let right = box.x + box.width;
+  let bottom = box.y + box.height;
+  if (options.legend && legend.length) {
+    const legendX = right + 40;
+    appendLegend(copy, legend, legendX, box.y, options.background === 'white' ? '#222' : '#ccc');
+    const longest = Math.max('Logical schemas'.length, ...legend.map(entry => entry.label.length + 3));
+    right = legendX + longest * 7;
+    bottom = Math.max(bottom, box.y + (legend.length + 1) * LEGEND_ROW_HEIGHT + 16);
+  }
+
+  const left = box.x - PADDING;
+  const top = box.y - PADDING;
+  const width = Math.ceil(right + PADDING - left);
+  const height = Math.ceil(bottom + PADDING - top);
+
+  const root = document.createElementNS(SVG_NS, 'svg');
+  root.setAttribute('width', String(width));
+  root.setAttribute('height', String(height));
+  root.setAttribute('viewBox', `${left} ${top} ${width} ${height}`);
+
+  if (options.background === 'white') {
+    const background = document.createElementNS(SVG_NS, 'rect');
+    background.setAttribute('x', String(left));
+    background.setAttribute('y', String(top));
+    background.setAttribute('width', String(width));
+    background.setAttribute('height', String(height));
+    background.setAttribute('fill', '#fff');
+    root.appendChild(background);
+  }
+
+  const defs = svg.querySelector('defs');
+  if (defs) {
+    root.appendChild(defs.cloneNode(true));
+  }
+  root.appendChild(copy);
+
+  return { svg: new XMLSerializer().serializeToString(root), width, height };
+};
+
+// Render an exported SVG to a PNG at `scale` times its size
+export const svgToPng = (exported: ExportedSvg, scale: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([exported.svg], { type: 'image/svg+xml' }));
+    const image = new Image();
+
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(exported.width * scale);
+      canvas.height = Math.round(exported.height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the PNG'))), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not render the SVG'));
+    };
+    image.src = url;
+  });
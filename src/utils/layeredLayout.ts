@@ -0,0 +1,173 @@
+import { NodePositions, Topology } from '../types';
+import { buildEdges } from './links';
+
+// Horizontal distance between layers and vertical spacing inside a layer
+const LAYER_SPACING = 260;
+const MIN_ROW_HEIGHT = 130;
+// Spacing of satellites fanned out beside their parent
+const SATELLITE_OFFSET = 75;
+const SATELLITE_SPACING = 36;
+const CROSSING_SWEEPS = 8;
+
+// A change to any of these requires a new layered layout; other edits keep it
+export const layoutStructureKey = (topology: Topology): string =>
+  JSON.stringify([
+    topology.nodes.map(node => [node.connection, node.physical?.length || 0, node.sinks?.length || 0]),
+    buildEdges(topology).map(edge => [edge.source, edge.target])
+  ]);
+
+// Edges that close a cycle, found by depth-first search; they are ignored for ranking
+const findBackEdges = (ids: string[], outgoing: Map<string, string[]>): Set<string> => {
+  const backEdges = new Set<string>();
+  const state = new Map<string, 'active' | 'done'>();
+
+  const visit = (id: string) => {
+    state.set(id, 'active');
+    (outgoing.get(id) || []).forEach(target => {
+      if (state.get(target) === 'active') {
+        backEdges.add(`${id}->${target}`);
+      } else if (!state.has(target)) {
+        visit(target);
+      }
+    });
+    state.set(id, 'done');
+  };
+
+  ids.forEach(id => {
+    if (!state.has(id)) visit(id);
+  });
+  return backEdges;
+};
+
+// Rank every node by the longest path from a node without upstreams
+const assignRanks = (ids: string[], edges: Array<[string, string]>): Map<string, number> => {
+  const ranks = new Map(ids.map(id => [id, 0]));
+  const incoming = new Map(ids.map(id => [id, 0]));
+  const outgoing = new Map<string, string[]>(ids.map(id => [id, []]));
+  edges.forEach(([source, target]) => {
+    outgoing.get(source)!.push(target);
+    incoming.set(target, incoming.get(target)! + 1);
+  });
+
+  const queue = ids.filter(id => incoming.get(id) === 0);
+  while (queue.length) {
+    const id = queue.shift()!;
+    outgoing.get(id)!.forEach(target => {
+      ranks.set(target, Math.max(ranks.get(target)!, ranks.get(id)! + 1));
+      incoming.set(target, incoming.get(target)! - 1);
+      if (incoming.get(target) === 0) queue.push(target);
+    });
+  }
+  return ranks;
+};
+
+// Reorder each layer by the average position of its neighbours in the previous
+// layers (sweeping right) or the following layers (sweeping left)
+const reduceCrossings = (
+  layers: string[][],
+  upstream: Map<string, string[]>,
+  downstream: Map<string, string[]>
+) => {
+  const order = new Map<string, number>();
+  const updateOrder = (layer: string[]) =>
+    layer.forEach((id, index) => order.set(id, layer.length > 1 ? index / (layer.length - 1) : 0.5));
+  layers.forEach(updateOrder);
+
+  const sortLayer = (layer: string[], neighbours: Map<string, string[]>) => {
+    const barycenter = new Map(
+      layer.map(id => {
+        const placed = (neighbours.get(id) || []).filter(other => order.has(other));
+        const value = placed.length
+          ? placed.reduce((sum, other) => sum + order.get(other)!, 0) / placed.length
+          : order.get(id)!;
+        return [id, value];
+      })
+    );
+    // Array.prototype.sort is stable, so ties keep their current order
+    layer.sort((a, b) => barycenter.get(a)! - barycenter.get(b)!);
+    updateOrder(layer);
+  };
+
+  for (let sweep = 0; sweep < CROSSING_SWEEPS; sweep++) {
+    if (sweep % 2 === 0) {
+      layers.slice(1).forEach(layer => sortLayer(layer, upstream));
+    } else {
+      layers.slice(0, -1).reverse().forEach(layer => sortLayer(layer, downstream));
+    }
+  }
+};
+
+// Compute a left-to-right layered layout: nodes are ranked along their links,
+// with nodes that only feed sinks in the last layer. Physical sources are fanned
+// out to the left of their node and sinks to the right. The result is centred on
+// (centerX, centerY) and keyed like the graph's node ids.
+export const computeLayeredLayout = (topology: Topology, centerX: number, centerY: number): NodePositions => {
+  const ids = topology.nodes.map(node => node.connection);
+  const allEdges = buildEdges(topology).map(edge => [edge.source, edge.target] as [string, string]);
+
+  const outgoing = new Map<string, string[]>(ids.map(id => [id, []]));
+  allEdges.forEach(([source, target]) => outgoing.get(source)!.push(target));
+  const backEdges = findBackEdges(ids, outgoing);
+  const edges = allEdges.filter(([source, target]) => source !== target && !backEdges.has(`${source}->${target}`));
+
+  const ranks = assignRanks(ids, edges);
+  const maxRank = Math.max(0, ...Array.from(ranks.values()));
+
+  // Sink-hosting nodes at the end of a chain line up in the last layer
+  topology.nodes.forEach(node => {
+    const hasDownstream = edges.some(([source]) => source === node.connection);
+    if (node.sinks?.length && !hasDownstream) {
+      ranks.set(node.connection, maxRank);
+    }
+  });
+
+  const layers: string[][] = Array.from({ length: maxRank + 1 }, () => []);
+  ids.forEach(id => layers[ranks.get(id)!].push(id));
+
+  const upstream = new Map<string, string[]>(ids.map(id => [id, []]));
+  const downstream = new Map<string, string[]>(ids.map(id => [id, []]));
+  edges.forEach(([source, target]) => {
+    downstream.get(source)!.push(target);
+    upstream.get(target)!.push(source);
+  });
+  reduceCrossings(layers, upstream, downstream);
+
+  // Rows are tall enough for the node's fanned-out satellites
+  const nodesById = new Map(topology.nodes.map(node => [node.connection, node]));
+  const rowHeight = (id: string) => {
+    const node = nodesById.get(id)!;
+    const satellites = Math.max(node.physical?.length || 0, node.sinks?.length || 0);
+    return Math.max(MIN_ROW_HEIGHT, satellites * SATELLITE_SPACING + 40);
+  };
+
+  const positions: NodePositions = {};
+  const layoutWidth = maxRank * LAYER_SPACING;
+
+  layers.forEach((layer, rank) => {
+    const heights = layer.map(rowHeight);
+    const total = heights.reduce((sum, height) => sum + height, 0);
+    let y = centerY - total / 2;
+
+    layer.forEach((id, index) => {
+      const x = centerX - layoutWidth / 2 + rank * LAYER_SPACING;
+      const nodeY = y + heights[index] / 2;
+      positions[id] = { x, y: nodeY };
+
+      const node = nodesById.get(id)!;
+      const fan = (count: number, offsetX: number, kind: 'physical' | 'sink') => {
+        for (let i = 0; i < count; i++) {
+          positions[`${id}-${kind}-${i}`] = {
+            x: x + offsetX,
+            y: nodeY + (i - (count - 1) / 2) * SATELLITE_SPACING
+          };
+        }
+      };
+      fan(node.physical?.length || 0, -SATELLITE_OFFSET, 'physical');
+      fan(node.sinks?.length || 0, SATELLITE_OFFSET, 'sink');
+
+      y += heights[index];
+    });
+  });
+
+  return positions;
+};
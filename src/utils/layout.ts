@@ -0,0 +1,51 @@
+import { LayoutPosition, NodeLayout, NodePositions, Topology, TopologyLayout } from '../types';
+
+const toLayoutPosition = (position: { x: number; y: number }): LayoutPosition => ({
+  x: Math.round(position.x),
+  y: Math.round(position.y)
+});
+
+// Convert a file's layout section into graph positions
+export const layoutToPositions = (layout: TopologyLayout | undefined): NodePositions => {
+  const positions: NodePositions = {};
+  if (!layout) return positions;
+
+  Object.entries(layout).forEach(([connection, nodeLayout]) => {
+    positions[connection] = { x: nodeLayout.x, y: nodeLayout.y };
+    nodeLayout.physical?.forEach((position, index) => {
+      positions[`${connection}-physical-${index}`] = { x: position.x, y: position.y };
+    });
+    nodeLayout.sinks?.forEach((position, index) => {
+      positions[`${connection}-sink-${index}`] = { x: position.x, y: position.y };
+    });
+  });
+
+  return positions;
+};
+
+// Build a layout section from graph positions. Satellites are only written
+// when all of a node's satellites of that kind have a position, so indices line up.
+export const positionsToLayout = (topology: Topology, positions: NodePositions): TopologyLayout | undefined => {
+  const layout: TopologyLayout = {};
+
+  topology.nodes.forEach(node => {
+    const main = positions[node.connection];
+    if (!main) return;
+
+    const nodeLayout: NodeLayout = toLayoutPosition(main);
+
+    const physical = (node.physical || []).map((_, index) => positions[`${node.connection}-physical-${index}`]);
+    if (physical.length && physical.every(Boolean)) {
+      nodeLayout.physical = physical.map(toLayoutPosition);
+    }
+
+    const sinks = (node.sinks || []).map((_, index) => positions[`${node.connection}-sink-${index}`]);
+    if (sinks.length && sinks.every(Boolean)) {
+      nodeLayout.sinks = sinks.map(toLayoutPosition);
+    }
+
+    layout[node.connection] = nodeLayout;
+  });
+
+  return Object.keys(layout).length ? layout : undefined;
+};
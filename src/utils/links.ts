@@ -0,0 +1,184 @@
+import { Node, Topology } from '../types';
+
+// A directed link between two main nodes, however it was declared in the YAML.
+// Data flows from `source` to `target`.
+export interface TopologyEdge {
+  source: string;
+  target: string;
+  // Listed in source.links.downstreams
+  declaredDownstream: boolean;
+  // Listed in target.links.upstreams
+  declaredUpstream: boolean;
+}
+
+// Two nodes that both declare the other as their downstream (or upstream)
+export interface LinkContradiction {
+  nodes: [string, string];
+  message: string;
+}
+
+export const edgeKey = (source: string, target: string) => `${source}->${target}`;
+
+// Derive the normalized edge list from both the downstreams and upstreams lists.
+// Entries that point to unknown connections are skipped; the validator reports them.
+export const buildEdges = (topology: Topology): TopologyEdge[] => {
+  const known = new Set(topology.nodes.map(node => node.connection));
+  const edges = new Map<string, TopologyEdge>();
+
+  const getEdge = (source: string, target: string) => {
+    const key = edgeKey(source, target);
+    let edge = edges.get(key);
+    if (!edge) {
+      edge = { source, target, declaredDownstream: false, declaredUpstream: false };
+      edges.set(key, edge);
+    }
+    return edge;
+  };
+
+  topology.nodes.forEach(node => {
+    node.links?.downstreams?.forEach(target => {
+      if (known.has(target)) {
+        getEdge(node.connection, target).declaredDownstream = true;
+      }
+    });
+  });
+
+  topology.nodes.forEach(node => {
+    node.links?.upstreams?.forEach(source => {
+      if (known.has(source)) {
+        getEdge(source, node.connection).declaredUpstream = true;
+      }
+    });
+  });
+
+  return Array.from(edges.values());
+};
+
+// Find node pairs with links in both directions
+export const findLinkContradictions = (edges: TopologyEdge[]): LinkContradiction[] => {
+  const keys = new Set(edges.map(edge => edgeKey(edge.source, edge.target)));
+  const contradictions: LinkContradiction[] = [];
+
+  edges.forEach(edge => {
+    if (edge.source < edge.target && keys.has(edgeKey(edge.target, edge.source))) {
+      contradictions.push({
+        nodes: [edge.source, edge.target],
+        message: `${edge.source} and ${edge.target} are linked in both directions`
+      });
+    }
+  });
+
+  return contradictions;
+};
+
+export const hasEdge = (topology: Topology, source: string, target: string) =>
+  buildEdges(topology).some(edge => edge.source === source && edge.target === target);
+
+// Write a node's link lists back, dropping empty lists and an empty links section
+const withLinks = (node: Node, downstreams: string[], upstreams: string[]): Node => {
+  const links: Node['links'] = {};
+  if (downstreams.length) links.downstreams = downstreams;
+  if (upstreams.length) links.upstreams = upstreams;
+
+  if (Object.keys(links).length) {
+    return { ...node, links };
+  }
+  const { links: _removed, ...rest } = node;
+  return rest;
+};
+
+// Remove a link from both ends: the source's downstreams and the target's upstreams.
+// Both are filtered in one pass, so a self-loop loses both of its entries.
+export const removeEdge = (topology: Topology, source: string, target: string): Topology => ({
+  ...topology,
+  nodes: topology.nodes.map(node => {
+    const declaredDown = node.connection === source && Boolean(node.links?.downstreams?.includes(target));
+    const declaredUp = node.connection === target && Boolean(node.links?.upstreams?.includes(source));
+    if (!declaredDown && !declaredUp) return node;
+
+    const downstreams = node.links?.downstreams || [];
+    const upstreams = node.links?.upstreams || [];
+    return withLinks(
+      node,
+      declaredDown ? downstreams.filter(ds => ds !== target) : downstreams,
+      declaredUp ? upstreams.filter(us => us !== source) : upstreams
+    );
+  })
+});
+
+// Reverse the direction of a link, storing the result in downstream form
+export const reverseEdge = (topology: Topology, source: string, target: string): Topology =>
+  addEdge(removeEdge(topology, source, target), target, source);
+
+// Add a link in downstream form; does nothing if the link already exists in either form
+export const addEdge = (topology: Topology, source: string, target: string): Topology => {
+  if (hasEdge(topology, source, target)) {
+    return topology;
+  }
+
+  return {
+    ...topology,
+    nodes: topology.nodes.map(node =>
+      node.connection === source
+        ? withLinks(node, [...(node.links?.downstreams || []), target], node.links?.upstreams || [])
+        : node
+    )
+  };
+};
+
+// Remove every link entry that refers to a connection
+export const removeNodeReferences = (nodes: Node[], connection: string): Node[] =>
+  nodes.map(node => {
+    if (!node.links?.downstreams?.includes(connection) && !node.links?.upstreams?.includes(connection)) {
+      return node;
+    }
+    return withLinks(
+      node,
+      (node.links.downstreams || []).filter(ds => ds !== connection),
+      (node.links.upstreams || []).filter(us => us !== connection)
+    );
+  });
+
+// Point every link entry that refers to `from` at `to` instead
+export const renameNodeReferences = (nodes: Node[], from: string, to: string): Node[] =>
+  nodes.map(node => {
+    if (!node.links?.downstreams?.includes(from) && !node.links?.upstreams?.includes(from)) {
+      return node;
+    }
+    return withLinks(
+      node,
+      (node.links.downstreams || []).map(ds => (ds === from ? to : ds)),
+      (node.links.upstreams || []).map(us => (us === from ? to : us))
+    );
+  });
+
+// Rewrite every link so it is declared as a downstream of its source node.
+// Upstream entries that point to unknown nodes are kept so no information is lost.
+export const normalizeLinks = (topology: Topology): Topology => {
+  const known = new Set(topology.nodes.map(node => node.connection));
+  const downstreams = new Map<string, string[]>();
+
+  topology.nodes.forEach(node => {
+    downstreams.set(node.connection, [...(node.links?.downstreams || [])]);
+  });
+
+  topology.nodes.forEach(node => {
+    node.links?.upstreams?.forEach(source => {
+      const list = downstreams.get(source);
+      if (list && !list.includes(node.connection)) {
+        list.push(node.connection);
+      }
+    });
+  });
+
+  return {
+    ...topology,
+    nodes: topology.nodes.map(node =>
+      withLinks(
+        node,
+        downstreams.get(node.connection) || [],
+        (node.links?.upstreams || []).filter(source => !known.has(source))
+      )
+    )
+  };
+};
@@ -0,0 +1,53 @@
+import { isDataType, LogicalSchema } from '../types';
+
+// Schema and field names are identifiers in queries
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Reasons a schema cannot be saved, for the schema name, each field and the schema as a whole
+export interface SchemaErrors {
+  name: string | null;
+  fields: Array<string | null>;
+  schema: string | null;
+}
+
+// Explain why `name` is not a valid schema or field name, or return null
+export const checkName = (name: string, what: string): string | null => {
+  if (!name.trim()) return `${what} name cannot be empty`;
+  if (!NAME_PATTERN.test(name)) {
+    return `${what} name must start with a letter or underscore and contain only letters, digits and underscores`;
+  }
+  return null;
+};
+
+// Names used by more than one field of a schema
+export const findDuplicateFields = (schema: LogicalSchema): Set<string> => {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  schema.schema.forEach(field => {
+    if (seen.has(field.name)) duplicates.add(field.name);
+    seen.add(field.name);
+  });
+  return duplicates;
+};
+
+// Everything that keeps `schema` from being saved next to schemas named `otherNames`
+export const findSchemaErrors = (schema: LogicalSchema, otherNames: string[]): SchemaErrors => {
+  const duplicates = findDuplicateFields(schema);
+
+  return {
+    name:
+      checkName(schema.name, 'Schema') ??
+      (otherNames.includes(schema.name) ? `A schema named '${schema.name}' already exists` : null),
+    fields: schema.schema.map(field => {
+      const nameError = checkName(field.name, 'Field');
+      if (nameError) return nameError;
+      if (duplicates.has(field.name)) return `Field '${field.name}' is defined more than once`;
+      if (!isDataType(field.type)) return `Unknown data type '${field.type}'`;
+      return null;
+    }),
+    schema: schema.schema.length === 0 ? 'A schema needs at least one field' : null
+  };
+};
+
+export const hasSchemaErrors = (errors: SchemaErrors) =>
+  errors.name !== null || errors.schema !== null || errors.fields.some(error => error !== null);
@@ -0,0 +1,90 @@
+import { EdgeSelection, LogicalSchema, Node, NodeSelection, Topology } from '../types';
+import { renameNodeReferences } from './links';
+
+// Explain why `address` cannot become the connection of node `current`, or return null
+export const findAddressConflict = (topology: Topology, address: string, current: string): string | null => {
+  if (!address.trim()) {
+    return 'Connection address cannot be empty';
+  }
+
+  const connectionOwner = topology.nodes.find(node => node.connection === address && node.connection !== current);
+  if (connectionOwner) {
+    return `Connection '${address}' is already used by another node`;
+  }
+
+  const grpcOwner = topology.nodes.find(node => node.grpc === address);
+  if (grpcOwner) {
+    return grpcOwner.connection === current
+      ? `Connection '${address}' is the same as this node's GRPC address`
+      : `'${address}' is already the GRPC address of node ${grpcOwner.connection}`;
+  }
+
+  return null;
+};
+
+// Rename a node's connection and update every link that refers to it
+export const renameConnection = (topology: Topology, from: string, to: string): Topology => ({
+  ...topology,
+  nodes: renameNodeReferences(
+    topology.nodes.map(node => (node.connection === from ? { ...node, connection: to } : node)),
+    from,
+    to
+  )
+});
+
+// Satellite ids are derived from the parent connection, e.g. "127.0.0.1:9090-sink-0"
+export const renameSatelliteId = (id: string, from: string, to: string): string => {
+  if (id === from) return to;
+  if (id.startsWith(`${from}-physical-`) || id.startsWith(`${from}-sink-`)) {
+    return to + id.slice(from.length);
+  }
+  return id;
+};
+
+// Update a selection that refers to the renamed node or one of its satellites
+export const renameSelection = (selection: NodeSelection, from: string, to: string): NodeSelection => {
+  if (!selection) return selection;
+
+  if (selection.type === 'main') {
+    return selection.nodeId === from ? { ...selection, nodeId: to } : selection;
+  }
+
+  if (selection.parentId !== from) return selection;
+  return {
+    ...selection,
+    parentId: to,
+    nodeId: renameSatelliteId(selection.nodeId, from, to)
+  };
+};
+
+// Update a selected link that starts or ends at the renamed node
+export const renameEdgeSelection = (edge: EdgeSelection, from: string, to: string): EdgeSelection =>
+  edge && {
+    source: edge.source === from ? to : edge.source,
+    target: edge.target === from ? to : edge.target
+  };
+
+// Point every physical source that uses logical schema `from` at `to` instead
+export const renameLogicalReferences = (nodes: Node[], from: string, to: string): Node[] =>
+  nodes.map(node =>
+    node.physical?.some(source => source.logical === from)
+      ? {
+          ...node,
+          physical: node.physical.map(source => (source.logical === from ? { ...source, logical: to } : source))
+        }
+      : node
+  );
+
+// Replace the logical schema at `index`, renaming its references if the name changed
+export const updateLogicalSchema = (topology: Topology, index: number, schema: LogicalSchema): Topology => {
+  const previous = topology.logical?.[index];
+  if (!previous) return topology;
+
+  const logical = [...topology.logical!];
+  logical[index] = schema;
+  return {
+    ...topology,
+    logical,
+    nodes: previous.name === schema.name ? topology.nodes : renameLogicalReferences(topology.nodes, previous.name, schema.name)
+  };
+};
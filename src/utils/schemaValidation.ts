@@ -0,0 +1,167 @@
+import Ajv, { ErrorObject } from 'ajv';
+import { parseDocument, isMap, isSeq, isScalar, LineCounter, Node as YamlNode } from 'yaml';
+import { Topology, TopologyDocument, TopologyLayout } from '../types';
+import topologySchema from '../../public/topology.schema.json';
+
+export { topologySchema };
+
+// A problem in the YAML text, with a position that can be shown next to the text
+export interface SchemaError {
+  message: string;
+  // Path into the document, e.g. "nodes[0].capacity"; empty for syntax errors
+  path: string;
+  // 1-based line and column in the YAML text
+  line: number;
+  column: number;
+  // 0-based character offset in the YAML text
+  offset: number;
+}
+
+export interface TopologyParseResult {
+  topology: Topology | null;
+  // The file's optional layout section, split off from the topology
+  layout?: TopologyLayout;
+  errors: SchemaError[];
+}
+
+const ajv = new Ajv({ allErrors: true });
+const validateSchema = ajv.compile<TopologyDocument>(topologySchema);
+
+type PathSegment = string | number;
+
+// Split an Ajv instance path ("/nodes/0/capacity") into its segments
+const splitInstancePath = (instancePath: string): PathSegment[] =>
+  instancePath
+    .split('/')
+    .slice(1)
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .map(segment => (/^\d+$/.test(segment) ? Number(segment) : segment));
+
+const formatPath = (path: PathSegment[]): string =>
+  path.reduce<string>(
+    (result, segment) =>
+      typeof segment === 'number' ? `${result}[${segment}]` : result ? `${result}.${segment}` : segment,
+    ''
+  );
+
+// Find the text offset of the value at `path`, or of its key when `atKey` is set.
+// Stops at the deepest node that exists, so missing properties point at their parent.
+const locate = (contents: YamlNode | null, path: PathSegment[], atKey: boolean): number => {
+  let node: unknown = contents;
+  let offset = contents?.range?.[0] ?? 0;
+
+  for (let i = 0; i < path.length; i++) {
+    const segment = path[i];
+    const last = i === path.length - 1;
+
+    if (isMap(node)) {
+      const pair = node.items.find(item =>
+        isScalar(item.key) ? String(item.key.value) === String(segment) : String(item.key) === String(segment)
+      );
+      if (!pair) break;
+
+      const keyRange = isScalar(pair.key) ? pair.key.range : undefined;
+      if (last && atKey && keyRange) {
+        return keyRange[0];
+      }
+      node = pair.value;
+      const valueRange = (pair.value as YamlNode | null)?.range;
+      offset = valueRange ? valueRange[0] : keyRange ? keyRange[0] : offset;
+    } else if (isSeq(node) && typeof segment === 'number') {
+      const item = node.items[segment] as YamlNode | undefined;
+      if (!item) break;
+      node = item;
+      offset = item.range ? item.range[0] : offset;
+    } else {
+      break;
+    }
+  }
+
+  return offset;
+};
+
+const describeError = (error: ErrorObject): { message: string; path: PathSegment[]; atKey: boolean } => {
+  const path = splitInstancePath(error.instancePath);
+
+  if (error.keyword === 'additionalProperties') {
+    const property = (error.params as { additionalProperty: string }).additionalProperty;
+    return { message: `unknown property '${property}'`, path: [...path, property], atKey: true };
+  }
+
+  if (error.keyword === 'required') {
+    const property = (error.params as { missingProperty: string }).missingProperty;
+    return { message: `missing required property '${property}'`, path, atKey: false };
+  }
+
+  return { message: error.message || 'is invalid', path, atKey: false };
+};
+
+// Parse YAML text and check it against the topology JSON Schema. The data that
+// is validated and the positions of its errors come from the same parsed document.
+export const parseTopology = (text: string): TopologyParseResult => {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(text, { lineCounter });
+
+  if (document.errors.length) {
+    return {
+      topology: null,
+      errors: document.errors.map(err => {
+        const offset = err.pos[0];
+        const position = lineCounter.linePos(offset);
+        return {
+          // The message repeats the position and quotes the source after its first line
+          message: err.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, ''),
+          path: '',
+          line: position.line,
+          column: position.col,
+          offset
+        };
+      })
+    };
+  }
+
+  let data: unknown;
+  try {
+    data = document.toJS();
+  } catch (err) {
+    // e.g. an alias to an anchor that is not defined
+    return {
+      topology: null,
+      errors: [{ message: err instanceof Error ? err.message : String(err), path: '', line: 1, column: 1, offset: 0 }]
+    };
+  }
+
+  if (validateSchema(data)) {
+    const { layout, ...topology } = data;
+    return { topology, layout, errors: [] };
+  }
+
+  const errors = (validateSchema.errors || []).map(error => {
+    const { message, path, atKey } = describeError(error);
+    const offset = locate(document.contents as YamlNode | null, path, atKey);
+    const position = lineCounter.linePos(offset);
+    const displayPath = formatPath(path);
+
+    return {
+      message: displayPath ? `${displayPath}: ${message}` : `Topology ${message}`,
+      path: displayPath,
+      line: position.line,
+      column: position.col,
+      offset
+    };
+  });
+
+  // Ajv can report the same problem more than once
+  const unique = errors.filter(
+    (error, index) => errors.findIndex(other => other.message === error.message && other.offset === error.offset) === index
+  );
+
+  return {
+    topology: null,
+    errors: unique.sort((a, b) => a.offset - b.offset)
+  };
+};
+
+// One line per error, e.g. for alerts
+export const formatSchemaErrors = (errors: SchemaError[]): string =>
+  errors.map(e => `Line ${e.line}, column ${e.column}: ${e.message}`).join('\n');
@@ -0,0 +1,64 @@
+import { Topology } from '../types';
+
+// A graph item with a property that matches a search query
+export interface SearchMatch {
+  // Graph node id: the connection, or a satellite id such as "127.0.0.1:9090-sink-0"
+  id: string;
+  // The main node, or the node hosting a source or sink
+  parentId: string;
+  label: string;
+  // The property that matched, e.g. "grpc" or "sourceConfig.filePath"
+  field: string;
+  value: string;
+}
+
+// Scalar config values keyed by their dotted path, including values in arrays and nested objects
+export const configEntries = (config: unknown, path: string): Array<[string, string]> => {
+  if (config === null || config === undefined) return [];
+  if (typeof config !== 'object') return [[path, String(config)]];
+
+  return Object.entries(config as Record<string, unknown>).flatMap(([key, value]) =>
+    configEntries(value, Array.isArray(config) ? `${path}[${key}]` : `${path}.${key}`)
+  );
+};
+
+// Case-insensitive search over node addresses, logical stream names, sink names
+// and types, and config values. Each graph item is listed once, in graph order,
+// with the first of its properties that matched.
+export const searchTopology = (topology: Topology, query: string): SearchMatch[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  const matches: SearchMatch[] = [];
+  const addMatch = (id: string, parentId: string, label: string, fields: Array<[string, string]>) => {
+    const hit = fields.find(([, value]) => value.toLowerCase().includes(needle));
+    if (hit) {
+      matches.push({ id, parentId, label, field: hit[0], value: hit[1] });
+    }
+  };
+
+  topology.nodes.forEach(node => {
+    addMatch(node.connection, node.connection, node.connection, [
+      ['connection', node.connection],
+      ['grpc', node.grpc]
+    ]);
+
+    node.physical?.forEach((source, index) => {
+      addMatch(`${node.connection}-physical-${index}`, node.connection, `${source.logical} on ${node.connection}`, [
+        ['logical', source.logical],
+        ...configEntries(source.parserConfig, 'parserConfig'),
+        ...configEntries(source.sourceConfig, 'sourceConfig')
+      ]);
+    });
+
+    node.sinks?.forEach((sink, index) => {
+      addMatch(`${node.connection}-sink-${index}`, node.connection, `${sink.name} on ${node.connection}`, [
+        ['name', sink.name],
+        ['type', sink.type],
+        ...configEntries(sink.config, 'config')
+      ]);
+    });
+  });
+
+  return matches;
+};
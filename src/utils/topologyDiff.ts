@@ -0,0 +1,221 @@
+import { LogicalSchema, Node, PhysicalSource, Sink, Topology } from '../types';
+import { buildEdges, edgeKey } from './links';
+import { configEntries } from './search';
+
+export type DiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+// One changed value, by its dotted path; a missing side means the value was added or removed
+export interface FieldChange {
+  field: string;
+  before?: string;
+  after?: string;
+}
+
+// A physical source or sink, at its index in the union node
+export interface SatelliteDiff {
+  label: string;
+  index: number;
+  status: DiffStatus;
+  changes: FieldChange[];
+}
+
+export interface NodeDiff {
+  connection: string;
+  // Status of the node's own fields; its sources and sinks have their own
+  status: DiffStatus;
+  changes: FieldChange[];
+  physical: SatelliteDiff[];
+  sinks: SatelliteDiff[];
+}
+
+export interface LinkDiff {
+  source: string;
+  target: string;
+  status: DiffStatus;
+}
+
+export interface SchemaDiff {
+  name: string;
+  status: DiffStatus;
+  changes: FieldChange[];
+}
+
+// Status of every graph item by graph id, and of every link by edgeKey
+export interface DiffStatuses {
+  items: Map<string, DiffStatus>;
+  links: Map<string, DiffStatus>;
+}
+
+export interface TopologyDiff {
+  // Everything in either topology; changed items as they are in `after`
+  union: Topology;
+  nodes: NodeDiff[];
+  links: LinkDiff[];
+  schemas: SchemaDiff[];
+  statuses: DiffStatuses;
+}
+
+// Compare two sets of values keyed by path
+const compareEntries = (before: Array<[string, string]>, after: Array<[string, string]>): FieldChange[] => {
+  const beforeMap = new Map(before);
+  const afterMap = new Map(after);
+  const fields = Array.from(new Set([...beforeMap.keys(), ...afterMap.keys()]));
+
+  return fields
+    .filter(field => beforeMap.get(field) !== afterMap.get(field))
+    .map(field => ({ field, before: beforeMap.get(field), after: afterMap.get(field) }));
+};
+
+const nodeEntries = (node: Node): Array<[string, string]> => [
+  ['grpc', node.grpc],
+  ['capacity', String(node.capacity)]
+];
+
+const sourceEntries = (source: PhysicalSource): Array<[string, string]> => [
+  ...configEntries(source.parserConfig, 'parserConfig'),
+  ...configEntries(source.sourceConfig, 'sourceConfig')
+];
+
+const sinkEntries = (sink: Sink): Array<[string, string]> => [
+  ['type', sink.type],
+  ...configEntries(sink.config, 'config')
+];
+
+const schemaEntries = (schema: LogicalSchema): Array<[string, string]> =>
+  schema.schema.map((field, index) => [`schema[${index}]`, `${field.name}: ${field.type}`]);
+
+const statusOf = (inBefore: boolean, inAfter: boolean, changes: FieldChange[]): DiffStatus =>
+  !inBefore ? 'added' : !inAfter ? 'removed' : changes.length ? 'changed' : 'unchanged';
+
+interface Match<T> {
+  key: string;
+  before?: T;
+  after?: T;
+}
+
+// Field changes between the two sides of a match
+const matchChanges = <T>(match: Match<T>, entriesOf: (item: T) => Array<[string, string]>) =>
+  compareEntries(match.before ? entriesOf(match.before) : [], match.after ? entriesOf(match.after) : []);
+
+// Match items of two lists by key. The union keeps the order of `before`, followed
+// by items only in `after`; matched items are taken from `after`.
+const matchByKey = <T>(
+  before: T[],
+  after: T[],
+  keyOf: (item: T, index: number, items: T[]) => string
+): Match<T>[] => {
+  const afterByKey = new Map(after.map((item, index) => [keyOf(item, index, after), item]));
+  const beforeKeys = new Set(before.map((item, index) => keyOf(item, index, before)));
+
+  return [
+    ...before.map((item, index) => {
+      const key = keyOf(item, index, before);
+      return { key, before: item, after: afterByKey.get(key) };
+    }),
+    ...after
+      .map((item, index) => ({ key: keyOf(item, index, after), after: item }))
+      .filter(match => !beforeKeys.has(match.key))
+  ];
+};
+
+// Sources are matched by logical schema and position among the sources of that schema
+const sourceKey = (source: PhysicalSource, index: number, sources: PhysicalSource[]) =>
+  `${source.logical}#${sources.slice(0, index).filter(other => other.logical === source.logical).length}`;
+
+// Diff the sources or sinks of a node pair, adding their union to `items`
+const diffSatellites = <T>(
+  before: T[],
+  after: T[],
+  keyOf: (item: T, index: number, items: T[]) => string,
+  labelOf: (item: T) => string,
+  entriesOf: (item: T) => Array<[string, string]>,
+  items: T[]
+): SatelliteDiff[] =>
+  matchByKey(before, after, keyOf).map(match => {
+    const item = (match.after ?? match.before)!;
+    const changes = matchChanges(match, entriesOf);
+    items.push(item);
+    return {
+      label: labelOf(item),
+      index: items.length - 1,
+      status: statusOf(Boolean(match.before), Boolean(match.after), changes),
+      changes
+    };
+  });
+
+// Compare two topologies: nodes by connection, sources by logical schema and
+// position, sinks by name, links by their endpoints and schemas by name
+export const diffTopologies = (before: Topology, after: Topology): TopologyDiff => {
+  const items = new Map<string, DiffStatus>();
+  const links = new Map<string, DiffStatus>();
+
+  const linkDiffs = matchByKey(buildEdges(before), buildEdges(after), edge => edgeKey(edge.source, edge.target)).map(
+    match => {
+      const { source, target } = (match.after ?? match.before)!;
+      const status = statusOf(Boolean(match.before), Boolean(match.after), []);
+      links.set(match.key, status);
+      return { source, target, status };
+    }
+  );
+
+  const unionNodes: Node[] = [];
+  const nodeDiffs = matchByKey(before.nodes, after.nodes, node => node.connection).map(match => {
+    const node = (match.after ?? match.before)!;
+    const changes = matchChanges(match, nodeEntries);
+    const status = statusOf(Boolean(match.before), Boolean(match.after), changes);
+    const physical: PhysicalSource[] = [];
+    const physicalDiffs = diffSatellites<PhysicalSource>(
+      match.before?.physical || [],
+      match.after?.physical || [],
+      sourceKey,
+      source => source.logical,
+      sourceEntries,
+      physical
+    );
+    const sinks: Sink[] = [];
+    const sinkDiffs = diffSatellites<Sink>(
+      match.before?.sinks || [],
+      match.after?.sinks || [],
+      sink => sink.name,
+      sink => sink.name,
+      sinkEntries,
+      sinks
+    );
+
+    items.set(node.connection, status);
+    physicalDiffs.forEach(diff => items.set(`${node.connection}-physical-${diff.index}`, diff.status));
+    sinkDiffs.forEach(diff => items.set(`${node.connection}-sink-${diff.index}`, diff.status));
+
+    // Links of the union are all declared as downstreams
+    const downstreams = linkDiffs.filter(link => link.source === node.connection).map(link => link.target);
+    const { links: _links, physical: _physical, sinks: _sinks, ...fields } = node;
+    unionNodes.push({
+      ...fields,
+      ...(downstreams.length ? { links: { downstreams } } : {}),
+      ...(physical.length ? { physical } : {}),
+      ...(sinks.length ? { sinks } : {})
+    });
+
+    return { connection: node.connection, status, changes, physical: physicalDiffs, sinks: sinkDiffs };
+  });
+
+  const unionSchemas: LogicalSchema[] = [];
+  const schemaDiffs = matchByKey(before.logical || [], after.logical || [], schema => schema.name).map(match => {
+    const schema = (match.after ?? match.before)!;
+    const changes = matchChanges(match, schemaEntries);
+    unionSchemas.push(schema);
+    return { name: schema.name, status: statusOf(Boolean(match.before), Boolean(match.after), changes), changes };
+  });
+
+  return {
+    union: { ...(unionSchemas.length ? { logical: unionSchemas } : {}), nodes: unionNodes },
+    nodes: nodeDiffs,
+    links: linkDiffs,
+    schemas: schemaDiffs,
+    statuses: { items, links }
+  };
+};
+
+// Whether a node or anything it hosts differs
+export const nodeHasChanges = (node: NodeDiff) =>
+  node.status !== 'unchanged' || [...node.physical, ...node.sinks].some(item => item.status !== 'unchanged');
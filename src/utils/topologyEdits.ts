@@ -0,0 +1,203 @@
+import { Node, PhysicalSource, Sink, Topology } from '../types';
+import { createConfig, findConfigType, migrateFields } from '../catalog/configFields';
+import { SOURCE_TYPES, PARSER_TYPES, DEFAULT_SOURCE_TYPE, DEFAULT_PARSER_TYPE } from '../catalog/sourceTypes';
+import { SINK_TYPES, DEFAULT_SINK_TYPE } from '../catalog/sinkTypes';
+import { removeNodeReferences } from './links';
+import { SatelliteRef } from './dataflow';
+import { renameLogicalReferences } from './rename';
+
+export type SatelliteKind = 'physical' | 'sink';
+
+// A new physical source with the default parser and source types
+export const createPhysicalSource = (logical: string): PhysicalSource => ({
+  logical,
+  parserConfig: createConfig(findConfigType(PARSER_TYPES, DEFAULT_PARSER_TYPE)!),
+  sourceConfig: createConfig(findConfigType(SOURCE_TYPES, DEFAULT_SOURCE_TYPE)!)
+});
+
+// A new sink of the default type
+export const createSink = (name: string): Sink => {
+  const sinkType = findConfigType(SINK_TYPES, DEFAULT_SINK_TYPE)!;
+  return {
+    name,
+    type: sinkType.type,
+    config: migrateFields({}, sinkType)
+  };
+};
+
+const sinkNames = (topology: Topology) =>
+  new Set(topology.nodes.flatMap(node => (node.sinks || []).map(sink => sink.name)));
+
+const uniqueName = (used: Set<string>, base: string): string => {
+  if (!used.has(base)) return base;
+
+  let counter = 2;
+  while (used.has(`${base}_${counter}`)) counter++;
+  return `${base}_${counter}`;
+};
+
+// Sink names must be unique across the topology; append a number until it is
+export const uniqueSinkName = (topology: Topology, base: string): string =>
+  uniqueName(sinkNames(topology), base);
+
+// Next address after `address` that no node uses as connection or GRPC address.
+// host:port addresses count up the port; anything else gets a numeric suffix.
+const nextFreeAddress = (used: Set<string>, address: string): string => {
+  const match = /^(.*):(\d+)$/.exec(address);
+  let counter = match ? Number(match[2]) + 1 : 2;
+  const candidate = () => (match ? `${match[1]}:${counter}` : `${address}-${counter}`);
+
+  while (used.has(candidate())) counter++;
+  return candidate();
+};
+
+const usedAddresses = (topology: Topology) =>
+  new Set(topology.nodes.flatMap(node => [node.connection, node.grpc]));
+
+// Remove a node and every link that refers to it
+export const deleteNode = (topology: Topology, connection: string): Topology => ({
+  ...topology,
+  nodes: removeNodeReferences(
+    topology.nodes.filter(node => node.connection !== connection),
+    connection
+  )
+});
+
+// Add a copy of a node on the next free addresses, with its sources and sinks
+// but without links. Returns the new node's connection.
+export const duplicateNode = (topology: Topology, connection: string): { topology: Topology; connection: string } => {
+  const original = topology.nodes.find(node => node.connection === connection);
+  if (!original) return { topology, connection };
+
+  const used = usedAddresses(topology);
+  const newConnection = nextFreeAddress(used, original.connection);
+  used.add(newConnection);
+  const newGrpc = nextFreeAddress(used, original.grpc);
+
+  const copy: Node = {
+    connection: newConnection,
+    grpc: newGrpc,
+    capacity: original.capacity
+  };
+  if (original.physical) {
+    copy.physical = original.physical.map(source => structuredClone(source));
+  }
+  if (original.sinks) {
+    const names = sinkNames(topology);
+    copy.sinks = original.sinks.map(sink => {
+      const name = uniqueName(names, sink.name);
+      names.add(name);
+      return { ...structuredClone(sink), name };
+    });
+  }
+
+  // Insert the copy right after the original
+  const index = topology.nodes.indexOf(original);
+  const nodes = [...topology.nodes];
+  nodes.splice(index + 1, 0, copy);
+  return { topology: { ...topology, nodes }, connection: newConnection };
+};
+
+const satellitesOf = (node: Node, kind: SatelliteKind): Array<PhysicalSource | Sink> =>
+  (kind === 'physical' ? node.physical : node.sinks) || [];
+
+// Replace a node's sources or sinks, dropping the key when the list is empty
+const withSatellites = (node: Node, kind: SatelliteKind, items: Array<PhysicalSource | Sink>): Node => {
+  const key = kind === 'physical' ? 'physical' : 'sinks';
+  if (items.length) {
+    return { ...node, [key]: items };
+  }
+  const { [key]: _removed, ...rest } = node;
+  return rest;
+};
+
+// Insert a copy of a physical source or sink right after the original.
+// Copied sinks get a unique name.
+export const duplicateSatellite = (
+  topology: Topology,
+  kind: SatelliteKind,
+  connection: string,
+  index: number
+): Topology => {
+  const owner = topology.nodes.find(node => node.connection === connection);
+  const item = owner && satellitesOf(owner, kind)[index];
+  if (!item) return topology;
+
+  const copy = structuredClone(item);
+  if (kind === 'sink') {
+    (copy as Sink).name = uniqueSinkName(topology, (item as Sink).name);
+  }
+
+  return {
+    ...topology,
+    nodes: topology.nodes.map(node => {
+      if (node.connection !== connection) return node;
+      const items = [...satellitesOf(node, kind)];
+      items.splice(index + 1, 0, copy);
+      return withSatellites(node, kind, items);
+    })
+  };
+};
+
+// Remove several nodes and every link that refers to any of them
+export const deleteNodes = (topology: Topology, connections: string[]): Topology =>
+  connections.reduce(deleteNode, topology);
+
+// Give every listed node the same capacity
+export const setCapacity = (topology: Topology, connections: string[], capacity: number): Topology => ({
+  ...topology,
+  nodes: topology.nodes.map(node => (connections.includes(node.connection) ? { ...node, capacity } : node))
+});
+
+// Add a physical source for the same logical schema to every listed node
+export const addSourceToNodes = (topology: Topology, connections: string[], logical: string): Topology => ({
+  ...topology,
+  nodes: topology.nodes.map(node =>
+    connections.includes(node.connection)
+      ? withSatellites(node, 'physical', [...satellitesOf(node, 'physical'), createPhysicalSource(logical)])
+      : node
+  )
+});
+
+// Add a default sink to every listed node. Sink names are unique, so the
+// copies after the first get a numbered name.
+export const addSinkToNodes = (topology: Topology, connections: string[], name: string): Topology => {
+  const names = sinkNames(topology);
+  return {
+    ...topology,
+    nodes: topology.nodes.map(node => {
+      if (!connections.includes(node.connection)) return node;
+
+      const sinkName = uniqueName(names, name);
+      names.add(sinkName);
+      return withSatellites(node, 'sink', [...satellitesOf(node, 'sink'), createSink(sinkName)]);
+    })
+  };
+};
+
+// Physical sources that use a logical schema, in topology order
+export const findSchemaUsers = (topology: Topology, name: string): SatelliteRef[] =>
+  topology.nodes.flatMap(node =>
+    (node.physical || []).flatMap((source, index) =>
+      source.logical === name ? [{ connection: node.connection, index, name }] : []
+    )
+  );
+
+// Remove the logical schema at `index`. Sources that use it are moved to
+// `replacement`, or removed as well when it is null.
+export const removeLogicalSchema = (topology: Topology, index: number, replacement: string | null): Topology => {
+  const removed = topology.logical?.[index];
+  if (!removed) return topology;
+
+  const logical = topology.logical!.filter((_, i) => i !== index);
+  const nodes =
+    replacement !== null
+      ? renameLogicalReferences(topology.nodes, removed.name, replacement)
+      : topology.nodes.map(node =>
+          node.physical?.some(source => source.logical === removed.name)
+            ? withSatellites(node, 'physical', node.physical.filter(source => source.logical !== removed.name))
+            : node
+        );
+
+  return { ...topology, nodes, logical: logical.length ? logical : undefined };
+};
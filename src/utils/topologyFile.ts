@@ -0,0 +1,150 @@
+import { stringify } from 'yaml';
+import { Topology, TopologyLayout } from '../types';
+
+// Minimal typings for the File System Access API, which is not part of the DOM lib yet
+interface WritableFileStream {
+  write: (data: string) => Promise<void>;
+  close: () => Promise<void>;
+}
+
+export interface TopologyFileHandle {
+  name: string;
+  getFile: () => Promise<File>;
+  createWritable: () => Promise<WritableFileStream>;
+}
+
+interface FilePickerOptions {
+  suggestedName?: string;
+  types?: Array<{ description: string; accept: { [mimeType: string]: string[] } }>;
+}
+
+interface FileSystemAccessWindow {
+  showOpenFilePicker?: (options?: FilePickerOptions) => Promise<TopologyFileHandle[]>;
+  showSaveFilePicker?: (options?: FilePickerOptions) => Promise<TopologyFileHandle>;
+}
+
+// A topology file read from disk
+export interface OpenedFile {
+  name: string;
+  text: string;
+  // Set when the browser lets us write back to the same file
+  handle: TopologyFileHandle | null;
+}
+
+const YAML_FILE_TYPES = [
+  { description: 'Topology YAML', accept: { 'text/yaml': ['.yaml', '.yml'] } }
+];
+
+const fileSystemAccess = (): FileSystemAccessWindow => window as unknown as FileSystemAccessWindow;
+
+// Whether Save As can let the user pick a file, rather than downloading one
+export const supportsSavePicker = () => Boolean(fileSystemAccess().showSaveFilePicker);
+
+export const isYamlFileName = (name: string) => /\.ya?ml$/i.test(name);
+
+// Write a topology as YAML, with the editor's layout section after the nodes when given
+export const serializeTopology = (topology: Topology, layout?: TopologyLayout): string =>
+  stringify(layout ? { ...topology, layout } : topology);
+
+// The user closing a picker is not an error
+const isAbort = (err: unknown) => err instanceof DOMException && err.name === 'AbortError';
+
+// Fallback for browsers without showOpenFilePicker
+const pickFileWithInput = (): Promise<File | null> =>
+  new Promise(resolve => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.yaml,.yml';
+    input.onchange = () => resolve(input.files?.[0] || null);
+    input.click();
+  });
+
+// Ask the user for a topology file; resolves to null if they cancel
+export const openTopologyFile = async (): Promise<OpenedFile | null> => {
+  const { showOpenFilePicker } = fileSystemAccess();
+
+  if (showOpenFilePicker) {
+    try {
+      const [handle] = await showOpenFilePicker({ types: YAML_FILE_TYPES });
+      const file = await handle.getFile();
+      return { name: file.name, text: await file.text(), handle };
+    } catch (err) {
+      if (isAbort(err)) return null;
+      throw err;
+    }
+  }
+
+  const file = await pickFileWithInput();
+  return file ? { name: file.name, text: await file.text(), handle: null } : null;
+};
+
+// Read a file dropped onto the page, keeping a writable handle where supported
+export const readDroppedFile = async (dataTransfer: DataTransfer): Promise<OpenedFile | null> => {
+  const item = Array.from(dataTransfer.items).find(entry => entry.kind === 'file');
+  const file = item?.getAsFile() || dataTransfer.files[0];
+  if (!file) return null;
+
+  let handle: TopologyFileHandle | null = null;
+  const getHandle = (item as unknown as { getAsFileSystemHandle?: () => Promise<TopologyFileHandle | null> })
+    ?.getAsFileSystemHandle;
+  if (getHandle) {
+    try {
+      handle = await getHandle.call(item);
+    } catch (err) {
+      console.warn('Could not get a writable handle for the dropped file:', err);
+    }
+  }
+
+  return { name: file.name, text: await file.text(), handle };
+};
+
+// Offer a blob as a file download
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const downloadText = (text: string, fileName: string) =>
+  downloadBlob(new Blob([text], { type: 'text/yaml' }), fileName);
+
+const writeToHandle = async (handle: TopologyFileHandle, text: string) => {
+  const writable = await handle.createWritable();
+  await writable.write(text);
+  await writable.close();
+};
+
+// Save the text, writing back to `handle` when possible. With `saveAs` (or
+// without a handle) the user picks a new file; browsers without the File
+// System Access API get a download instead. Resolves to null if cancelled.
+export const saveTopologyFile = async (
+  text: string,
+  fileName: string,
+  handle: TopologyFileHandle | null,
+  saveAs: boolean
+): Promise<{ name: string; handle: TopologyFileHandle | null } | null> => {
+  if (handle && !saveAs) {
+    await writeToHandle(handle, text);
+    return { name: handle.name, handle };
+  }
+
+  const { showSaveFilePicker } = fileSystemAccess();
+  if (showSaveFilePicker) {
+    try {
+      const newHandle = await showSaveFilePicker({ suggestedName: fileName, types: YAML_FILE_TYPES });
+      await writeToHandle(newHandle, text);
+      return { name: newHandle.name, handle: newHandle };
+    } catch (err) {
+      if (isAbort(err)) return null;
+      throw err;
+    }
+  }
+
+  downloadText(text, fileName);
+  return { name: fileName, handle: null };
+};
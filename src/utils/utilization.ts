@@ -0,0 +1,59 @@
+import { Topology } from '../types';
+import { buildEdges } from './links';
+
+// How much each hosted item adds to a node's load
+export interface UtilizationWeights {
+  physical: number;
+  sinks: number;
+  // Per node whose data is forwarded through this one
+  upstreams: number;
+}
+
+export const DEFAULT_UTILIZATION_WEIGHTS: UtilizationWeights = {
+  physical: 1,
+  sinks: 1,
+  upstreams: 1
+};
+
+export interface NodeUtilization {
+  connection: string;
+  capacity: number;
+  physical: number;
+  sinks: number;
+  // Direct links into this node; nodes further upstream are not counted
+  upstreams: number;
+  load: number;
+  // load / capacity; Infinity when a node without capacity has any load
+  utilization: number;
+  overloaded: boolean;
+}
+
+// Weighted load of every node compared against its capacity, in topology order
+export const computeUtilization = (topology: Topology, weights: UtilizationWeights): NodeUtilization[] => {
+  const upstreamCounts = new Map<string, number>();
+  buildEdges(topology).forEach(edge => {
+    upstreamCounts.set(edge.target, (upstreamCounts.get(edge.target) || 0) + 1);
+  });
+
+  return topology.nodes.map(node => {
+    const physical = node.physical?.length || 0;
+    const sinks = node.sinks?.length || 0;
+    const upstreams = upstreamCounts.get(node.connection) || 0;
+    const load = physical * weights.physical + sinks * weights.sinks + upstreams * weights.upstreams;
+    const capacity = node.capacity;
+
+    return {
+      connection: node.connection,
+      capacity,
+      physical,
+      sinks,
+      upstreams,
+      load,
+      utilization: capacity > 0 ? load / capacity : load > 0 ? Infinity : 0,
+      overloaded: load > capacity
+    };
+  });
+};
+
+export const formatUtilization = (utilization: number) =>
+  Number.isFinite(utilization) ? `${Math.round(utilization * 100)}%` : '∞';
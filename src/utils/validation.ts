@@ -0,0 +1,304 @@
+import { Topology, NodeSelection, isDataType } from '../types';
+import { buildEdges, findLinkContradictions, TopologyEdge } from './links';
+import { findNodesReachingSinks } from './dataflow';
+import { checkName, findDuplicateFields } from './logicalSchemas';
+
+export type ProblemSeverity = 'error' | 'warning';
+
+// Where in the topology a problem was found
+export interface ProblemLocation {
+  // Path into the topology document, e.g. "nodes[1].links.downstreams[0]"
+  path: string;
+  // The graph item the problem refers to, used to select it from the problems panel
+  selection: NodeSelection;
+  // Set for problems that belong to a logical schema rather than a node
+  schemaName?: string;
+}
+
+export interface Problem {
+  severity: ProblemSeverity;
+  message: string;
+  location: ProblemLocation;
+}
+
+const mainSelection = (connection: string): NodeSelection => ({ type: 'main', nodeId: connection });
+
+// Link entries that point to connections no node declares
+const checkDanglingLinks = (topology: Topology, problems: Problem[]) => {
+  const known = new Set(topology.nodes.map(node => node.connection));
+
+  topology.nodes.forEach((node, nodeIndex) => {
+    (['downstreams', 'upstreams'] as const).forEach(direction => {
+      node.links?.[direction]?.forEach((address, linkIndex) => {
+        if (!known.has(address)) {
+          problems.push({
+            severity: 'error',
+            message: `Node ${node.connection} lists unknown ${direction === 'downstreams' ? 'downstream' : 'upstream'} '${address}'`,
+            location: {
+              path: `nodes[${nodeIndex}].links.${direction}[${linkIndex}]`,
+              selection: mainSelection(node.connection)
+            }
+          });
+        }
+      });
+    });
+  });
+};
+
+// Connection and GRPC addresses must be unique across all nodes, in both roles
+const checkDuplicateAddresses = (topology: Topology, problems: Problem[]) => {
+  const owners = new Map<string, string>();
+
+  topology.nodes.forEach((node, nodeIndex) => {
+    (['connection', 'grpc'] as const).forEach(field => {
+      const address = node[field];
+      if (!address) return;
+
+      const owner = owners.get(address);
+      if (owner !== undefined) {
+        problems.push({
+          severity: 'error',
+          message: `Duplicate address '${address}' (${field} of node ${node.connection}, already used as ${owner})`,
+          location: {
+            path: `nodes[${nodeIndex}].${field}`,
+            selection: mainSelection(node.connection)
+          }
+        });
+      } else {
+        owners.set(address, `${field} of node ${node.connection}`);
+      }
+    });
+  });
+};
+
+// Sink names identify the query output and must be unique across the topology
+const checkDuplicateSinkNames = (topology: Topology, problems: Problem[]) => {
+  const owners = new Map<string, string>();
+
+  topology.nodes.forEach((node, nodeIndex) => {
+    node.sinks?.forEach((sink, sinkIndex) => {
+      const owner = owners.get(sink.name);
+      if (owner !== undefined) {
+        problems.push({
+          severity: 'error',
+          message: `Duplicate sink name '${sink.name}' (already defined on node ${owner})`,
+          location: {
+            path: `nodes[${nodeIndex}].sinks[${sinkIndex}].name`,
+            selection: {
+              type: 'sink',
+              nodeId: `${node.connection}-sink-${sinkIndex}`,
+              parentId: node.connection,
+              name: sink.name,
+              sinkIndex
+            }
+          }
+        });
+      } else {
+        owners.set(sink.name, node.connection);
+      }
+    });
+  });
+};
+
+// Physical sources must refer to a declared logical schema, and schemas must
+// have uniquely named fields of supported data types
+const checkSchemas = (topology: Topology, problems: Problem[]) => {
+  const schemaNames = new Set((topology.logical || []).map(schema => schema.name));
+  const seenSchemas = new Set<string>();
+
+  topology.logical?.forEach((schema, schemaIndex) => {
+    const schemaProblem = (severity: ProblemSeverity, message: string, path = '') =>
+      problems.push({
+        severity,
+        message,
+        location: { path: `logical[${schemaIndex}]${path}`, selection: null, schemaName: schema.name }
+      });
+
+    if (seenSchemas.has(schema.name)) {
+      schemaProblem('error', `Duplicate logical schema name '${schema.name}'`, '.name');
+    }
+    seenSchemas.add(schema.name);
+
+    if (!schema.schema || schema.schema.length === 0) {
+      schemaProblem('warning', `Logical schema '${schema.name}' has no fields`, '.schema');
+      return;
+    }
+
+    // Report each duplicated field once, at its second definition
+    const duplicates = findDuplicateFields(schema);
+    const seenFields = new Set<string>();
+    schema.schema.forEach((field, fieldIndex) => {
+      const path = `.schema[${fieldIndex}]`;
+      if (seenFields.has(field.name) && duplicates.delete(field.name)) {
+        schemaProblem('error', `Logical schema '${schema.name}' defines field '${field.name}' more than once`, `${path}.name`);
+      }
+      seenFields.add(field.name);
+      const nameError = checkName(field.name, 'Field');
+      if (nameError) {
+        schemaProblem('warning', `Logical schema '${schema.name}': ${nameError} ('${field.name}')`, `${path}.name`);
+      }
+      if (!isDataType(field.type)) {
+        schemaProblem('error', `Field '${field.name}' of logical schema '${schema.name}' has unknown data type '${field.type}'`, `${path}.type`);
+      }
+    });
+  });
+
+  topology.nodes.forEach((node, nodeIndex) => {
+    node.physical?.forEach((source, sourceIndex) => {
+      if (!schemaNames.has(source.logical)) {
+        problems.push({
+          severity: 'error',
+          message: `Physical source on ${node.connection} uses unknown logical schema '${source.logical}'`,
+          location: {
+            path: `nodes[${nodeIndex}].physical[${sourceIndex}].logical`,
+            selection: {
+              type: 'physical',
+              nodeId: `${node.connection}-physical-${sourceIndex}`,
+              parentId: node.connection,
+              name: source.logical,
+              physicalSourceIndex: sourceIndex
+            }
+          }
+        });
+      }
+    });
+  });
+};
+
+// Two nodes that declare each other as downstream (or upstream)
+const checkContradictions = (topology: Topology, edges: TopologyEdge[], problems: Problem[]) => {
+  findLinkContradictions(edges).forEach(contradiction => {
+    const [first] = contradiction.nodes;
+    const nodeIndex = topology.nodes.findIndex(n => n.connection === first);
+    problems.push({
+      severity: 'error',
+      message: `Contradicting links: ${contradiction.message}`,
+      location: { path: `nodes[${nodeIndex}].links`, selection: mainSelection(first) }
+    });
+  });
+};
+
+// Report every strongly connected component of the downstream graph as one cycle.
+// Two-node cycles are contradictions and reported by checkContradictions.
+const checkCycles = (topology: Topology, edges: TopologyEdge[], problems: Problem[]) => {
+  const adjacency = new Map<string, string[]>();
+  topology.nodes.forEach(node => adjacency.set(node.connection, []));
+  edges.forEach(({ source, target }) => adjacency.get(source)!.push(target));
+
+  // Tarjan's algorithm
+  let counter = 0;
+  const index = new Map<string, number>();
+  const lowlink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+
+  const visit = (connection: string) => {
+    index.set(connection, counter);
+    lowlink.set(connection, counter);
+    counter++;
+    stack.push(connection);
+    onStack.add(connection);
+
+    for (const next of adjacency.get(connection) || []) {
+      if (!index.has(next)) {
+        visit(next);
+        lowlink.set(connection, Math.min(lowlink.get(connection)!, lowlink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowlink.set(connection, Math.min(lowlink.get(connection)!, index.get(next)!));
+      }
+    }
+
+    if (lowlink.get(connection) === index.get(connection)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== connection);
+
+      const selfLoop = adjacency.get(connection)!.includes(connection);
+      if (component.length > 2 || selfLoop) {
+        component.reverse();
+        const nodeIndex = topology.nodes.findIndex(n => n.connection === component[0]);
+        problems.push({
+          severity: 'error',
+          message: `Cycle in downstream links: ${[...component, component[0]].join(' → ')}`,
+          location: {
+            path: `nodes[${nodeIndex}].links`,
+            selection: mainSelection(component[0])
+          }
+        });
+      }
+    }
+  };
+
+  topology.nodes.forEach(node => {
+    if (!index.has(node.connection)) {
+      visit(node.connection);
+    }
+  });
+};
+
+// Every node should be able to forward its data to at least one node hosting a sink.
+// Sources on such nodes get their own warning: their data is never output.
+const checkPathsToSinks = (topology: Topology, edges: TopologyEdge[], problems: Problem[]) => {
+  const sinkHosts = topology.nodes.filter(node => node.sinks && node.sinks.length > 0);
+
+  if (topology.nodes.length > 0 && sinkHosts.length === 0) {
+    problems.push({
+      severity: 'warning',
+      message: 'Topology has no sinks',
+      location: { path: 'nodes', selection: null }
+    });
+    return;
+  }
+
+  const reachesSink = findNodesReachingSinks(topology, edges);
+
+  topology.nodes.forEach((node, nodeIndex) => {
+    if (!reachesSink.has(node.connection)) {
+      problems.push({
+        severity: 'warning',
+        message: `Node ${node.connection} has no path to any sink`,
+        location: { path: `nodes[${nodeIndex}]`, selection: mainSelection(node.connection) }
+      });
+
+      node.physical?.forEach((source, sourceIndex) => {
+        problems.push({
+          severity: 'warning',
+          message: `Physical source '${source.logical}' on ${node.connection} cannot reach any sink; its data is never output`,
+          location: {
+            path: `nodes[${nodeIndex}].physical[${sourceIndex}]`,
+            selection: {
+              type: 'physical',
+              nodeId: `${node.connection}-physical-${sourceIndex}`,
+              parentId: node.connection,
+              name: source.logical,
+              physicalSourceIndex: sourceIndex
+            }
+          }
+        });
+      });
+    }
+  });
+};
+
+// Run all semantic checks on a topology; errors are listed before warnings
+export const validateTopology = (topology: Topology): Problem[] => {
+  const problems: Problem[] = [];
+  const edges = buildEdges(topology);
+
+  checkDanglingLinks(topology, problems);
+  checkDuplicateAddresses(topology, problems);
+  checkDuplicateSinkNames(topology, problems);
+  checkSchemas(topology, problems);
+  checkContradictions(topology, edges, problems);
+  checkCycles(topology, edges, problems);
+  checkPathsToSinks(topology, edges, problems);
+
+  return [
+    ...problems.filter(problem => problem.severity === 'error'),
+    ...problems.filter(problem => problem.severity === 'warning')
+  ];
+};